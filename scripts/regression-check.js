@@ -0,0 +1,142 @@
+// Regression checks for input-handling bugs fixed in the scorer. Runs against
+// the compiled package: `npm test` builds first, then runs this file.
+const assert = require('assert');
+const {
+  calculateScoreAtPrice,
+  calculateScoreFromValues,
+  ScoreInputError,
+} = require('../dist');
+
+const BASE = {
+  creditScore: 700,
+  annualIncome: 90000,
+  monthlyDebts: 300,
+  targetHomePrice: 400000,
+  savedForDownPayment: 30000,
+  firstTimeBuyer: true,
+  veteranStatus: null,
+  employmentYears: 3,
+  asOfDate: '2026-01-15',
+};
+
+const RANGE_INPUT = {
+  creditScoreRange: '700-739',
+  annualIncome: '80k-100k',
+  monthlyDebts: '250-500',
+  downPayment: '25k-50k',
+  priceRange: '400k-500k',
+  employmentYears: '2-5',
+  firstTimeBuyer: true,
+  veteranStatus: null,
+};
+
+let failures = 0;
+
+function check(name, fn) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.log(`not ok - ${name}`);
+    console.log(`  ${error.stack.split('\n').join('\n  ')}`);
+  }
+}
+
+function assertFiniteScore(result) {
+  assert.ok(Number.isFinite(result.total), `total is ${result.total}`);
+  assert.ok(Number.isFinite(result.sweetSpot.recommendedPrice), `sweet spot is ${result.sweetSpot.recommendedPrice}`);
+}
+
+function assertStrictThrows(fn, code) {
+  assert.throws(fn, (error) => error instanceof ScoreInputError && error.issues.some((i) => i.code === code));
+}
+
+// ============================================================================
+// NON-FINITE AND NON-POSITIVE AMOUNTS
+// ============================================================================
+
+check('NaN amounts score on defaults instead of throwing', () => {
+  for (const field of ['annualIncome', 'monthlyDebts', 'savedForDownPayment', 'giftFunds', 'creditScore']) {
+    const result = calculateScoreFromValues({ ...BASE, [field]: NaN });
+    assertFiniteScore(result);
+    assert.ok(result.defaultedFields.includes(field), `${field} not listed as defaulted`);
+  }
+});
+
+check('non-finite and non-positive prices score on the default price', () => {
+  for (const price of [NaN, Infinity, 0, -100000]) {
+    const result = calculateScoreFromValues({ ...BASE, targetHomePrice: price });
+    assertFiniteScore(result);
+    assert.strictEqual(result.parsedValues.targetPrice, 500000);
+    assert.ok(result.defaultedFields.includes('targetHomePrice'));
+  }
+});
+
+check('strict mode rejects NaN amounts and prices not above zero', () => {
+  assertStrictThrows(() => calculateScoreFromValues({ ...BASE, annualIncome: NaN }, {}, { strict: true }), 'INVALID_NUMBER');
+  assertStrictThrows(() => calculateScoreFromValues({ ...BASE, targetHomePrice: 0 }, {}, { strict: true }), 'INVALID_PRICE');
+  assertStrictThrows(() => calculateScoreAtPrice(RANGE_INPUT, Infinity, {}, { strict: true }), 'INVALID_PRICE');
+});
+
+check('the slider defaults a price that is not above zero', () => {
+  for (const price of [0, NaN]) {
+    const result = calculateScoreAtPrice(RANGE_INPUT, price);
+    assertFiniteScore(result);
+    assert.ok(result.sweetSpot.recommendedPrice > 0);
+    assert.ok(result.defaultedFields.includes('overridePrice'));
+  }
+});
+
+// ============================================================================
+// ZERO INCOME
+// ============================================================================
+
+check('zero income reports no qualifying income without DTI math', () => {
+  const result = calculateScoreFromValues({ ...BASE, annualIncome: 0 });
+  assertFiniteScore(result);
+  assert.strictEqual(result.parsedValues.currentDti, null);
+  assert.strictEqual(result.parsedValues.housingRatio, null);
+  assert.strictEqual(result.primaryBlocker.code, 'NO_QUALIFYING_INCOME');
+  assert.strictEqual(result.primaryBlocker.type, 'INCOME');
+  assert.ok(result.gaps.some((gap) => gap.code === 'NO_QUALIFYING_INCOME' && gap.factor === 'income'));
+
+  const changes = result.pathToGoal ? result.pathToGoal.requiredChanges : [];
+  assert.ok(changes.every((change) => change.type !== 'debt_reduction' && change.type !== 'income_increase'));
+});
+
+// ============================================================================
+// DEROGATORY EVENTS AND DATES
+// ============================================================================
+
+check('unknown derogatory event types are skipped when scoring', () => {
+  const events = [{ type: 'repossession-ish', date: '2025-06-01' }];
+  const withEvent = calculateScoreFromValues({ ...BASE, derogatoryEvents: events });
+  const without = calculateScoreFromValues(BASE);
+  assert.strictEqual(withEvent.total, without.total);
+  assert.strictEqual(withEvent.status, without.status);
+  assertStrictThrows(
+    () => calculateScoreFromValues({ ...BASE, derogatoryEvents: events }, {}, { strict: true }),
+    'UNKNOWN_EVENT_TYPE'
+  );
+});
+
+check('a non-ISO asOfDate falls back to today', () => {
+  const today = calculateScoreFromValues({ ...BASE, asOfDate: null });
+  for (const asOfDate of ['01/15/2026', 'next tuesday']) {
+    const result = calculateScoreFromValues({ ...BASE, asOfDate });
+    assert.strictEqual(result.total, today.total);
+    assert.strictEqual(result.readiness.months[0].date, today.readiness.months[0].date);
+    assert.ok(result.defaultedFields.includes('asOfDate'));
+  }
+  assertStrictThrows(
+    () => calculateScoreFromValues({ ...BASE, asOfDate: '01/15/2026' }, {}, { strict: true }),
+    'INVALID_DATE'
+  );
+});
+
+if (failures > 0) {
+  console.log(`\n${failures} check(s) failed`);
+  process.exit(1);
+}
+console.log('\nAll regression checks passed');
@@ -0,0 +1,137 @@
+import type {
+  ScoringConfig,
+  PaymentProfile,
+  ScoreValuesInput,
+  AmortizationOptions,
+  AmortizationRow,
+  AmortizationSchedule,
+  SweetSpotAmortization,
+} from './types';
+import { resolveConfig, calculatePaymentBreakdown, PAYMENT_MODELS } from './payment';
+import { calculateScoreFromValues, selectFinancingPlan } from './calculator';
+
+// ============================================================================
+// AMORTIZATION & EQUITY
+// ============================================================================
+
+/**
+ * Build a month-by-month schedule using the same assumptions as
+ * estimateMonthlyPayment: principal, interest, escrow, mortgage insurance,
+ * remaining balance and equity. Extra principal shortens the loan, and for
+ * conventional loans brings PMI cancellation (78% LTV) forward.
+ */
+export function buildAmortizationSchedule(
+  price: number,
+  downPaymentPercent: number = 0.035,
+  config: ScoringConfig = {},
+  profile?: PaymentProfile,
+  options: AmortizationOptions = {}
+): AmortizationSchedule {
+  const { termYears } = resolveConfig(config);
+  const breakdown = calculatePaymentBreakdown(price, downPaymentPercent, config, profile);
+  const monthlyRate = breakdown.rate / 12;
+  const termMonths = termYears * 12;
+  const escrow = breakdown.propertyTax + breakdown.insurance;
+  const appreciationRate = options.appreciationRate ?? 0;
+  const pmiCancelBalance = price * PAYMENT_MODELS.conventional.cancelLtv;
+
+  // One-time extra payments keyed by month
+  const lumpSums = new Map<number, number>();
+  for (const extra of options.extraPayments ?? []) {
+    lumpSums.set(extra.month, (lumpSums.get(extra.month) ?? 0) + extra.amount);
+  }
+
+  const rows: AmortizationRow[] = [];
+  let balance = breakdown.loanAmount;
+  let miActive = breakdown.mortgageInsurance > 0;
+  let mortgageInsuranceEndsMonth: number | null = null;
+  let totalInterest = 0;
+  let totalMortgageInsurance = 0;
+
+  for (let month = 1; month <= termMonths && balance > 0.005; month++) {
+    const interest = balance * monthlyRate;
+    const principal = Math.min(balance, breakdown.principalAndInterest - interest);
+    balance -= principal;
+
+    const extraPrincipal = Math.min(
+      balance,
+      Math.max(0, (options.extraMonthlyPrincipal ?? 0) + (lumpSums.get(month) ?? 0))
+    );
+    balance -= extraPrincipal;
+
+    const mortgageInsurance = miActive ? breakdown.mortgageInsurance : 0;
+    totalInterest += interest;
+    totalMortgageInsurance += mortgageInsurance;
+
+    const homeValue = price * Math.pow(1 + appreciationRate, month / 12);
+    rows.push({
+      month,
+      payment: principal + extraPrincipal + interest + escrow + mortgageInsurance,
+      principal,
+      extraPrincipal,
+      interest,
+      escrow,
+      mortgageInsurance,
+      balance,
+      homeValue,
+      equity: homeValue - balance,
+    });
+
+    // Conventional PMI cancels at 78% of the original value; FHA MIP and
+    // USDA fees run on a fixed term regardless of extra payments
+    if (miActive) {
+      const miEnds = breakdown.program === "conventional"
+        ? balance <= pmiCancelBalance
+        : month >= breakdown.mortgageInsuranceMonths;
+      if (miEnds || balance <= 0.005) {
+        miActive = false;
+        mortgageInsuranceEndsMonth = month;
+      }
+    }
+  }
+
+  return {
+    price,
+    downPayment: price * downPaymentPercent,
+    loanAmount: breakdown.loanAmount,
+    program: breakdown.program,
+    monthlyPayment: breakdown.total,
+    mortgageInsuranceEndsMonth,
+    payoffMonth: rows.length,
+    totalInterest,
+    totalMortgageInsurance,
+    rows,
+  };
+}
+
+/**
+ * Build schedules at the buyer's target price and at the sweet spot the
+ * score recommends, using the same financing plan the score was modeled on
+ * so the month-1 payments match sweetSpot.monthlyPayment.
+ */
+export function buildSweetSpotAmortization(
+  input: ScoreValuesInput,
+  config: ScoringConfig = {},
+  options: AmortizationOptions = {}
+): SweetSpotAmortization {
+  const result = calculateScoreFromValues(input, config);
+  const plan = selectFinancingPlan(input, config);
+
+  return {
+    plan,
+    target: buildAmortizationSchedule(
+      result.parsedValues.targetPrice,
+      plan.downPaymentPercent,
+      config,
+      plan.profile,
+      options
+    ),
+    sweetSpot: buildAmortizationSchedule(
+      result.sweetSpot.recommendedPrice,
+      plan.downPaymentPercent,
+      config,
+      plan.profile,
+      options
+    ),
+  };
+}
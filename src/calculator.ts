@@ -14,204 +14,339 @@ import type {
   AffordabilityResult,
   DPAEligibility,
   ScoreValuesInput,
+  ScoringConfig,
+  EmploymentType,
+  ProgramWaitingPeriod,
+  WaitingPeriodStatus,
+  FinancingPlan,
+  PaymentProfile,
+  AssistanceProgram,
+  AssistanceEligibility,
+  ReadinessMonth,
+  ReadinessProjection,
+  ProjectedMilestone,
+  ScoreOptions,
+  ScoreTrace,
+  FactorTrace,
+  LocationData,
+  LocationSummary,
+  QualifyingDebts,
+  QualifyingIncome,
+  IncomeSource,
+  DebtPayoffPlan,
+  PayoffStrategy,
+  PayoffStrategyResult,
+  PayoffMilestone,
+  LumpSumPayoff,
+  CreditScorePolicy,
+  RepresentativeCreditScore,
+  PaymentProgram,
+  PriceLimit,
+  ResidualIncome,
+  VaLoanTerms,
+  CashToClose,
 } from './types';
+import {
+  DEROGATORY_EVENT_LABELS,
+  MAX_PENALTY_POINTS,
+  addMonths,
+  calculatePenaltyPoints,
+  formatDisplayDate,
+  getKnownEvents,
+  getWaitingPeriodStatus,
+  monthsUntil,
+  parseIsoDate,
+  parseStrictIsoDate,
+  toIsoDate,
+} from './derogatory';
+import { resolveConfig, estimateMonthlyPayment, calculatePaymentBreakdown } from './payment';
+import {
+  CREDIT_SCORE_RANGES,
+  INCOME_RANGES,
+  PRICE_RANGES,
+  DOWN_PAYMENT_RANGES,
+  MONTHLY_DEBT_RANGES,
+  EMPLOYMENT_YEARS_RANGES,
+} from './ranges';
+import { ScoreInputError, validatePrice, validateScoreInput, validateScoreValues } from './validation';
+import { getProgramIncomeLimit, getProgramsForState, knownHouseholdSize } from './programs';
+import { findLocation } from './locations';
+import { calculateQualifyingDebts } from './debts';
+import { calculateQualifyingIncome, HISTORY_INCOME_TYPES, MIN_HISTORY_MONTHS } from './income';
+import { PAYOFF_STRATEGIES, selectLumpSumPayoff, simulatePayoff } from './payoff';
+import { getRepresentativeScore } from './credit';
+import { getNextRateTier } from './pricing';
+import { ESTIMATED_TAX_RATE, calculateResidualIncome, getVaRegion } from './residual';
+import { getVaLoanTerms, isVaEligible } from './entitlement';
+import { calculateCashToClose } from './closing';
 
 // Credit score range to approximate score mapping
 function getCreditScore(range: string | null): number | null {
   if (!range) return null;
+  return CREDIT_SCORE_RANGES[range] ?? null;
+}
 
-  const mapping: Record<string, number> = {
-    "below-580": 550,
-    "580-619": 600,
-    "620-659": 640,
-    "660-699": 680,
-    "700-739": 720,
-    "740-plus": 760,
-    "not-sure": null as unknown as number,
-  };
+// A scoring threshold band. Bands are listed in order and the last one
+// catches everything else.
+interface ScoreBand {
+  threshold: number;
+  points: number;
+  label: string;
+}
+
+// First band the value is at or above
+function bandAtLeast(bands: ScoreBand[], value: number): ScoreBand {
+  return bands.find((b) => value >= b.threshold) ?? bands[bands.length - 1];
+}
 
-  return mapping[range] ?? null;
+// First band the value is below
+function bandBelow(bands: ScoreBand[], value: number): ScoreBand {
+  return bands.find((b) => value < b.threshold) ?? bands[bands.length - 1];
 }
 
+const CREDIT_BANDS: ScoreBand[] = [
+  { threshold: 740, points: 30, label: "740+" },
+  { threshold: 720, points: 27, label: "720-739" },
+  { threshold: 700, points: 24, label: "700-719" },
+  { threshold: 680, points: 20, label: "680-699" },
+  { threshold: 660, points: 17, label: "660-679" },
+  { threshold: 640, points: 14, label: "640-659" },
+  { threshold: 620, points: 10, label: "620-639" },
+  { threshold: 580, points: 5, label: "580-619" },
+  { threshold: 500, points: 2, label: "500-579" },
+  { threshold: -Infinity, points: 0, label: "Below 500" },
+];
+
 // Calculate credit points (30 max)
 function calculateCreditPoints(creditScore: number | null): number {
   if (!creditScore) return 15; // Unknown - middle estimate
-
-  if (creditScore >= 740) return 30;
-  if (creditScore >= 720) return 27;
-  if (creditScore >= 700) return 24;
-  if (creditScore >= 680) return 20;
-  if (creditScore >= 660) return 17;
-  if (creditScore >= 640) return 14;
-  if (creditScore >= 620) return 10;
-  if (creditScore >= 580) return 5;
-  if (creditScore >= 500) return 2;
-  return 0;
+  return bandAtLeast(CREDIT_BANDS, creditScore).points;
 }
 
 // Get income amount from range
 function getIncomeAmount(range: string | null): number {
   if (!range) return 60000; // Default assumption
-
-  const mapping: Record<string, number> = {
-    "under-40k": 35000,
-    "40k-60k": 50000,
-    "60k-80k": 70000,
-    "80k-100k": 90000,
-    "100k-150k": 125000,
-    "150k-180k": 165000,
-    "180k-220k": 200000,
-    "220k-plus": 250000,
-  };
-
-  return mapping[range] ?? 60000;
+  return INCOME_RANGES[range] ?? 60000;
 }
 
 // Get price amount from range
 function getPriceAmount(range: string | null): number {
   if (!range) return 500000; // Default assumption (Utah avg ~$589k)
-
-  const mapping: Record<string, number> = {
-    "under-400k": 350000,
-    "400k-500k": 450000,
-    "500k-600k": 550000,
-    "600k-700k": 650000,
-    "700k-800k": 750000,
-    "800k-900k": 850000,
-    "900k-1m": 950000,
-    "1m-plus": 1200000,
-  };
-
-  return mapping[range] ?? 500000;
+  return PRICE_RANGES[range] ?? 500000;
 }
 
 // Get down payment amount from range
 function getDownPaymentAmount(range: string | null): number {
   if (!range) return 20000; // Default assumption
-
-  const mapping: Record<string, number> = {
-    "under-10k": 5000,
-    "10k-25k": 17500,
-    "25k-50k": 37500,
-    "50k-75k": 62500,
-    "75k-100k": 87500,
-    "100k-140k": 120000,
-    "140k-180k": 160000,
-    "180k-220k": 200000,
-    "220k-260k": 240000,
-    "260k-plus": 300000,
-  };
-
-  return mapping[range] ?? 20000;
+  return DOWN_PAYMENT_RANGES[range] ?? 20000;
 }
 
 // Get monthly debt amount from range
 function getMonthlyDebtAmount(range: string | null): number {
   if (!range) return 0; // Default to no debt if not specified
+  return MONTHLY_DEBT_RANGES[range] ?? 0;
+}
 
-  const mapping: Record<string, number> = {
-    none: 0,
-    "under-250": 125,
-    "250-500": 375,
-    "500-1000": 750,
-    "1000-2000": 1500,
-    "2000-2500": 2250,
-    "2500-3000": 2750,
-    "3000-plus": 3500,
-  };
+// Get years of employment history from range
+function getEmploymentYears(range: string | null | undefined): number | null {
+  if (!range) return null; // Unknown - scored as stable employment
+  return EMPLOYMENT_YEARS_RANGES[range] ?? null;
+}
 
-  return mapping[range] ?? 0;
+// Estimate monthly payment under the buyer's financing plan
+function planPayment(price: number, plan: FinancingPlan, config: Required<ScoringConfig>): number {
+  return estimateMonthlyPayment(price, plan.downPaymentPercent, config, plan.profile);
 }
 
-// Current mortgage rate - TODO: make configurable per tenant
-const CURRENT_RATE = 0.06; // 6.0% as of Jan 2025
+// Cash to close at a price on the financing plan
+function getCashToClose(
+  values: ScoreValuesInput,
+  price: number,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): CashToClose {
+  const breakdown = calculatePaymentBreakdown(price, plan.downPaymentPercent, config, plan.profile);
+  return calculateCashToClose(price, breakdown, config.closingCosts, values);
+}
 
-// Estimate monthly payment (PITI)
-export function estimateMonthlyPayment(price: number, downPaymentPercent: number = 0.035): number {
-  // Assumptions: 6.0% rate, 30-year, 1.2% property tax, $100/mo insurance
-  const downPayment = price * downPaymentPercent;
-  const loanAmount = price - downPayment;
-  const monthlyRate = CURRENT_RATE / 12;
-  const numPayments = 360;
+// The next credit tier that prices the plan lower, and what it saves each
+// month at a price. Null when the buyer is already in the best tier.
+function getRateTierSavings(
+  price: number,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): { targetScore: number; monthlySavings: number } | null {
+  const ltv = 1 - plan.downPaymentPercent;
+  const targetScore = getNextRateTier(config.ratePricing, plan.profile.program, plan.profile.creditScore, ltv);
+  if (targetScore === null) return null;
+
+  const improved: FinancingPlan = { ...plan, profile: { ...plan.profile, creditScore: targetScore } };
+  const monthlySavings = Math.round(planPayment(price, plan, config) - planPayment(price, improved, config));
+  return monthlySavings > 0 ? { targetScore, monthlySavings } : null;
+}
 
-  const mortgage =
-    (loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numPayments))) /
-    (Math.pow(1 + monthlyRate, numPayments) - 1);
+const DTI_BANDS: ScoreBand[] = [
+  { threshold: 28, points: 25, label: "Under 28%" },
+  { threshold: 36, points: 22, label: "28-36%" },
+  { threshold: 41, points: 18, label: "36-41%" },
+  { threshold: 44, points: 14, label: "41-44%" },
+  { threshold: 50, points: 10, label: "44-50%" },
+  { threshold: 57, points: 5, label: "50-57%" },
+  { threshold: Infinity, points: 0, label: "57%+" },
+];
+
+// Housing payment alone as a share of income (the front-end ratio)
+const HOUSING_RATIO_BANDS: ScoreBand[] = [
+  { threshold: 28, points: 25, label: "Housing under 28%" },
+  { threshold: 31, points: 22, label: "Housing 28-31%" },
+  { threshold: 36, points: 18, label: "Housing 31-36%" },
+  { threshold: 41, points: 14, label: "Housing 36-41%" },
+  { threshold: 47, points: 10, label: "Housing 41-47%" },
+  { threshold: 54, points: 5, label: "Housing 47-54%" },
+  { threshold: Infinity, points: 0, label: "Housing 54%+" },
+];
+
+// Program caps on the housing ratio: FHA's 31% and USDA's 29%. VA and
+// conventional underwriting only cap total DTI.
+const HOUSING_RATIO_LIMITS: Record<PaymentProgram, number | null> = {
+  fha: 31,
+  va: null,
+  conventional: null,
+  usda: 29,
+};
 
-  const propertyTax = (price * 0.012) / 12;
-  const insurance = 100;
-  const pmi = (loanAmount * 0.008) / 12; // ~0.8% PMI
+// The 28% guideline (the front half of 28/36) for comfortable budgets
+const HOUSING_RATIO_GUIDELINE = 28;
 
-  return mortgage + propertyTax + insurance + pmi;
-}
-
-// Calculate DTI points (25 max)
+// Calculate DTI points (25 max) - the lower of the total DTI and housing
+// ratio bands, so a payment that's too big on its own counts even without debts
 function calculateDtiPoints(
   monthlyIncome: number,
   targetPrice: number,
-  monthlyDebts: number
+  monthlyDebts: number,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
 ): number {
+  // No qualifying income means no DTI to score
+  if (monthlyIncome <= 0) return 0;
+
   // Calculate DTI based on estimated mortgage payment plus actual debt
-  const estimatedPayment = estimateMonthlyPayment(targetPrice);
+  const estimatedPayment = planPayment(targetPrice, plan, config);
   const totalObligations = estimatedPayment + monthlyDebts;
   const dti = (totalObligations / monthlyIncome) * 100;
+  const housingRatio = (estimatedPayment / monthlyIncome) * 100;
 
-  if (dti < 28) return 25;
-  if (dti < 36) return 22;
-  if (dti < 41) return 18;
-  if (dti < 44) return 14;
-  if (dti < 50) return 10;
-  if (dti < 57) return 5;
-  return 0;
+  return Math.min(bandBelow(DTI_BANDS, dti).points, bandBelow(HOUSING_RATIO_BANDS, housingRatio).points);
 }
 
-// Calculate down payment points (20 max)
+const DOWN_PAYMENT_BANDS: ScoreBand[] = [
+  { threshold: 20, points: 20, label: "20%+" },
+  { threshold: 15, points: 17, label: "15-20%" },
+  { threshold: 10, points: 14, label: "10-15%" },
+  { threshold: 5, points: 10, label: "5-10%" },
+  { threshold: 3.5, points: 7, label: "3.5-5%" },
+  { threshold: 3, points: 5, label: "3-3.5%" },
+  { threshold: 1, points: 3, label: "1-3%" },
+  { threshold: -Infinity, points: 1, label: "Under 1%" },
+];
+
+// Calculate down payment points (20 max) from the funds left for the down
+// payment once closing costs are paid
 function calculateDownPaymentPoints(
-  saved: number,
+  available: number,
   targetPrice: number,
-  veteranStatus: string | null
+  vaTerms: VaLoanTerms | null
 ): number {
-  // VA eligible gets automatic 15 points (0% down available)
-  if (
-    veteranStatus &&
-    ["active", "veteran", "guard-reserve", "spouse"].includes(veteranStatus)
-  ) {
+  // VA eligible gets automatic 15 points when funds cover any down payment
+  // partial entitlement requires (usually 0%)
+  if (vaTerms && available >= vaTerms.downPaymentRequired) {
     return 15;
   }
 
-  const percentage = (saved / targetPrice) * 100;
-
-  if (percentage >= 20) return 20;
-  if (percentage >= 15) return 17;
-  if (percentage >= 10) return 14;
-  if (percentage >= 5) return 10;
-  if (percentage >= 3.5) return 7;
-  if (percentage >= 3) return 5;
-  if (percentage >= 1) return 3;
-  return 1;
+  const percentage = (available / targetPrice) * 100;
+  return bandAtLeast(DOWN_PAYMENT_BANDS, percentage).points;
 }
 
 // Calculate employment points (15 max)
-// In simplified flow, we assume stable employment
-function calculateEmploymentPoints(): number {
-  return 12; // Assume 2+ years, reasonable default
+function calculateEmploymentPoints(
+  years: number | null,
+  employmentType: EmploymentType | null,
+  gapMonths: number | null
+): number {
+  // No employment data - assume stable employment as the simplified flow does
+  if (years === null && employmentType === null && gapMonths === null) {
+    return 12; // Assume 2+ years, reasonable default
+  }
+
+  let points: number;
+  switch (employmentType) {
+    case "retired":
+      // Fixed income (Social Security, pension) - tenure doesn't apply
+      points = 14;
+      break;
+    case "self-employed":
+      // Lenders need 2 years of tax returns to count 1099/self-employment income
+      if (years === null) points = 10;
+      else if (years >= 5) points = 14;
+      else if (years >= 2) points = 11;
+      else if (years >= 1) points = 5;
+      else points = 0;
+      break;
+    case "job-change-same-field":
+      // New employer, same line of work - the history carries over
+      if (years === null || years >= 2) points = 12;
+      else if (years >= 1) points = 8;
+      else points = 4;
+      break;
+    default:
+      // W-2 (or type not given)
+      if (years === null) points = 12;
+      else if (years >= 5) points = 15;
+      else if (years >= 2) points = 13;
+      else if (years >= 1) points = 9;
+      else points = 5;
+  }
+
+  // A gap of 6+ months needs 6 months back on the job. With 2+ years of
+  // tenure it still costs points but is never a blocker, since the 2-year
+  // history is already there.
+  if (gapMonths !== null && gapMonths >= 6) {
+    if (years !== null && years < 0.5) points -= 6;
+    else if (years !== null && years >= 2) points = Math.max(10, points - 3);
+    else points -= 3;
+  }
+
+  return Math.max(0, points);
 }
 
+const RESERVES_BANDS: ScoreBand[] = [
+  { threshold: 6, points: 10, label: "6+ months" },
+  { threshold: 4, points: 8, label: "4-6 months" },
+  { threshold: 3, points: 6, label: "3-4 months" },
+  { threshold: 2, points: 4, label: "2-3 months" },
+  { threshold: 1, points: 2, label: "1-2 months" },
+  { threshold: -Infinity, points: 0, label: "Under 1 month" },
+];
+
 // Calculate reserves points (10 max)
-// In simplified flow, estimate based on down payment saved
-function calculateReservesPoints(saved: number, targetPrice: number): number {
-  // Assume some portion is reserves after down payment
-  const downPaymentNeeded = targetPrice * 0.035;
-  const reserves = Math.max(0, saved - downPaymentNeeded);
-  const monthlyPiti = estimateMonthlyPayment(targetPrice);
-  const months = reserves / monthlyPiti;
-
-  if (months >= 6) return 10;
-  if (months >= 4) return 8;
-  if (months >= 3) return 6;
-  if (months >= 2) return 4;
-  if (months >= 1) return 2;
-  return 0;
+function calculateReservesPoints(
+  cash: CashToClose,
+  targetPrice: number,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): number {
+  return bandAtLeast(RESERVES_BANDS, calculateReservesMonths(cash, targetPrice, plan, config)).points;
+}
+
+// Months of PITI covered by liquid assets left after closing
+function calculateReservesMonths(
+  cash: CashToClose,
+  targetPrice: number,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): number {
+  const monthlyPiti = planPayment(targetPrice, plan, config);
+  return cash.postClosingAssets / monthlyPiti;
 }
 
 // Calculate bonus points
@@ -222,10 +357,7 @@ function calculateBonusPoints(
   let bonus = 0;
 
   // Veteran status
-  if (
-    veteranStatus &&
-    ["active", "veteran", "guard-reserve", "spouse"].includes(veteranStatus)
-  ) {
+  if (isVaEligible(veteranStatus)) {
     bonus += 10;
   }
 
@@ -247,14 +379,11 @@ function getStatus(score: number): ScoreStatus {
   return "JUST_EXPLORING";
 }
 
-// Get timeline from score
-function getTimeline(score: number): string {
-  if (score >= 85) return "0-1 months";
-  if (score >= 75) return "1-2 months";
-  if (score >= 60) return "3-6 months";
-  if (score >= 45) return "6-12 months";
-  if (score >= 25) return "12-18 months";
-  return "18+ months";
+// Get timeline from a projected milestone
+function formatTimeline(milestone: ProjectedMilestone | null): string {
+  if (!milestone) return `${READINESS_HORIZON_MONTHS}+ months`;
+  if (milestone.month === 0) return "0-1 months";
+  return `${milestone.month} month${milestone.month === 1 ? '' : 's'}`;
 }
 
 // Get color from status
@@ -274,62 +403,88 @@ function getColor(status: ScoreStatus): string {
 function matchPrograms(
   creditScore: number | null,
   firstTimeBuyer: boolean | null,
-  veteranStatus: string | null,
-  income: number
+  vaTerms: VaLoanTerms | null,
+  income: number,
+  ruralInterest: boolean | null,
+  utahResident: boolean | null,
+  householdSize: number | null,
+  waiting: WaitingPeriodStatus,
+  assistancePrograms: AssistanceProgram[],
+  location: LocationSummary | null
 ): ProgramDetail[] {
   const programs: ProgramDetail[] = [];
   const score = creditScore || 650;
+  const areaMedianIncome = location?.areaMedianIncome ?? null;
 
-  // VA Loan
-  if (
-    veteranStatus &&
-    ["active", "veteran", "guard-reserve", "spouse"].includes(veteranStatus)
-  ) {
+  // VA Loan (VA-eligible buyers have terms)
+  if (vaTerms) {
     programs.push({
       name: "VA Loan",
-      eligible: true,
-      reason: "Military service",
-      benefit: "0% down payment, no PMI",
+      eligible: waiting.va.eligibleNow,
+      reason: waiting.va.eligibleNow ? "Military service" : describeWaitingPeriod(waiting.va),
+      benefit: describeVaBenefit(vaTerms),
     });
   }
 
-  // FHA Loan
+  // FHA Loan (the loan must fit under the county's FHA limit)
   if (score >= 580) {
     programs.push({
       name: "FHA Loan",
-      eligible: true,
-      reason: score >= 580 ? "Credit score qualifies" : "Need 580+ credit",
+      eligible: waiting.fha.eligibleNow && !location?.overFhaLimit,
+      reason: location?.overFhaLimit
+        ? `Loan over the ${formatCurrency(location.fhaLimit)} FHA limit in ${location.county}`
+        : waiting.fha.eligibleNow ? "Credit score qualifies" : describeWaitingPeriod(waiting.fha),
       benefit: "3.5% down payment",
     });
   }
 
-  // Conventional
+  // Conventional (above the conforming limit it's a jumbo loan)
   if (score >= 620) {
     programs.push({
       name: "Conventional Loan",
-      eligible: true,
-      reason: "Credit score qualifies",
+      eligible: waiting.conventional.eligibleNow && !location?.jumbo,
+      reason: location?.jumbo
+        ? `Loan over the ${formatCurrency(location.conformingLimit)} conforming limit in ${location.county} - jumbo territory`
+        : waiting.conventional.eligibleNow ? "Credit score qualifies" : describeWaitingPeriod(waiting.conventional),
       benefit: "Competitive rates, 3-5% down",
     });
   }
 
-  // Utah FirstHome (first-time buyer program)
-  if (firstTimeBuyer && score >= 660 && income < 141400) {
+  // Jumbo (only listed when the loan is over the conforming limit)
+  if (location?.jumbo) {
+    const eligible = score >= PROGRAM_LIMITS.jumbo.minCreditScore && waiting.conventional.eligibleNow;
     programs.push({
-      name: "Utah FirstHome",
-      eligible: true,
-      reason: "First-time buyer with qualifying credit and income",
-      benefit: "Up to 6% down payment assistance",
+      name: "Jumbo Loan",
+      eligible,
+      reason: score < PROGRAM_LIMITS.jumbo.minCreditScore
+        ? `Most jumbo lenders require ${PROGRAM_LIMITS.jumbo.minCreditScore}+ credit (yours is ~${score})`
+        : waiting.conventional.eligibleNow ? "Credit score qualifies" : describeWaitingPeriod(waiting.conventional),
+      benefit: "Financing above the conforming limit, usually 10-20% down",
     });
   }
 
-  // Utah HomeAgain
-  if (score >= 660 && income < 141400) {
+  // Down payment assistance programs from the registry (only listed when eligible)
+  for (const program of assistancePrograms) {
+    if (qualifiesForProgram(program, score, income, firstTimeBuyer, householdSize, areaMedianIncome, waiting)) {
+      programs.push({
+        name: program.name,
+        eligible: true,
+        reason: program.firstTimeBuyerRequired
+          ? "First-time buyer with qualifying credit and income"
+          : "Credit and income qualify",
+        benefit: program.summary,
+      });
+    }
+  }
+
+  // USDA Rural Development (only for buyers open to rural areas)
+  if (ruralInterest === true) {
+    const usda = checkUsdaEligibility(score, income, ruralInterest, utahResident, householdSize, areaMedianIncome, waiting);
     programs.push({
-      name: "Utah HomeAgain",
-      eligible: true,
-      reason: "Credit and income qualify",
-      benefit: "Down payment assistance available",
+      name: "USDA Rural Development",
+      eligible: usda.eligible,
+      reason: usda.reason,
+      benefit: "0% down payment, low annual guarantee fee",
     });
   }
 
@@ -342,8 +497,15 @@ function identifyGaps(
   creditPoints: number,
   downPaymentPoints: number,
   dtiPoints: number,
+  dti: number | null,
+  housingRatio: number | null,
   saved: number,
-  targetPrice: number
+  availableForDownPayment: number,
+  targetPrice: number,
+  employmentPoints: number,
+  employmentYears: number | null,
+  employmentType: EmploymentType | null,
+  employmentGapMonths: number | null
 ): Gap[] {
   const gaps: Gap[] = [];
 
@@ -351,6 +513,8 @@ function identifyGaps(
   if (creditPoints < 20) {
     gaps.push({
       factor: "credit",
+      code: creditScore ? "CREDIT_BELOW_680" : "CREDIT_UNKNOWN",
+      params: { creditScore },
       severity: creditPoints < 10 ? "high" : "medium",
       current: creditScore ? `${creditScore}` : "Unknown",
       target: "680+",
@@ -360,11 +524,18 @@ function identifyGaps(
     });
   }
 
-  // Down payment gap
+  // Down payment gap - on what's left for the down payment after closing costs
   if (downPaymentPoints < 10) {
-    const percentage = ((saved / targetPrice) * 100).toFixed(1);
+    const percentage = ((availableForDownPayment / targetPrice) * 100).toFixed(1);
     gaps.push({
       factor: "down_payment",
+      code: "DP_BELOW_5_PERCENT",
+      params: {
+        saved,
+        availableForDownPayment: Math.round(availableForDownPayment),
+        downPaymentPercent: Number(percentage),
+        target: Math.round(targetPrice * 0.05),
+      },
       severity: downPaymentPoints < 5 ? "high" : "medium",
       current: `${percentage}%`,
       target: "5%+",
@@ -374,12 +545,41 @@ function identifyGaps(
     });
   }
 
-  // DTI gap
-  if (dtiPoints < 14) {
+  // DTI gap - without qualifying income there's no DTI to bring down
+  if (dti === null) {
+    gaps.push({
+      factor: "income",
+      code: "NO_QUALIFYING_INCOME",
+      params: { targetPrice },
+      severity: "high",
+      current: "No qualifying income",
+      target: "Documented income",
+      pointsLost: 25 - dtiPoints,
+      potentialGain: Math.min(10, 25 - dtiPoints),
+      actionRequired: "Document income lenders can count",
+    });
+  } else if (dtiPoints < 14 && housingRatio !== null && bandBelow(HOUSING_RATIO_BANDS, housingRatio).points < bandBelow(DTI_BANDS, dti).points) {
+    // The housing payment alone costs the points, not other debts
+    const limit = dtiPoints < 10 ? 47 : 41;
     gaps.push({
       factor: "dti",
+      code: "HOUSING_RATIO_HIGH",
+      params: { housingRatio, limit, targetPrice },
       severity: dtiPoints < 5 ? "high" : "medium",
-      current: "High",
+      current: `${housingRatio}%`,
+      target: `Under ${limit}%`,
+      pointsLost: 25 - dtiPoints,
+      potentialGain: Math.min(10, 25 - dtiPoints),
+      actionRequired: "Lower the target price or increase income",
+    });
+  } else if (dtiPoints < 14) {
+    const limit = dtiPoints < 10 ? 50 : 43;
+    gaps.push({
+      factor: "dti",
+      code: dtiPoints < 10 ? "DTI_OVER_50" : "DTI_OVER_43",
+      params: { dti, limit, targetPrice },
+      severity: dtiPoints < 5 ? "high" : "medium",
+      current: `${dti}%`,
       target: "Under 43%",
       pointsLost: 25 - dtiPoints,
       potentialGain: Math.min(10, 25 - dtiPoints),
@@ -387,6 +587,29 @@ function identifyGaps(
     });
   }
 
+  // Employment gap
+  if (employmentPoints < 10) {
+    const selfEmployed = employmentType === "self-employed";
+    const recentGap = employmentGapMonths !== null && employmentGapMonths >= 6;
+    gaps.push({
+      factor: "employment",
+      code: recentGap
+        ? "EMPLOYMENT_RECENT_GAP"
+        : selfEmployed ? "SELF_EMPLOYMENT_UNDER_2_YEARS" : "EMPLOYMENT_UNDER_2_YEARS",
+      params: { employmentYears, gapMonths: employmentGapMonths },
+      severity: employmentPoints < 5 ? "high" : "medium",
+      current: employmentYears !== null ? formatTenure(employmentYears) : "Unknown",
+      target: selfEmployed ? "2+ years self-employed" : "2+ years steady work",
+      pointsLost: 15 - employmentPoints,
+      potentialGain: Math.min(8, 15 - employmentPoints),
+      actionRequired: recentGap
+        ? "Build 6+ months at your current job after your employment gap"
+        : selfEmployed
+          ? "Build a 2-year self-employment track record"
+          : "Build a 2-year employment history",
+    });
+  }
+
   return gaps.sort((a, b) => b.potentialGain - a.potentialGain);
 }
 
@@ -397,6 +620,7 @@ function generateRecommendations(gaps: Gap[]): Recommendation[] {
       case "credit":
         return {
           priority: index + 1,
+          code: gap.code,
           category: "credit",
           title: "Boost Your Credit Score",
           description:
@@ -406,6 +630,7 @@ function generateRecommendations(gaps: Gap[]): Recommendation[] {
       case "down_payment":
         return {
           priority: index + 1,
+          code: gap.code,
           category: "savings",
           title: "Build Your Down Payment",
           description:
@@ -415,15 +640,37 @@ function generateRecommendations(gaps: Gap[]): Recommendation[] {
       case "dti":
         return {
           priority: index + 1,
+          code: gap.code,
           category: "debt",
           title: "Lower Your Debt-to-Income Ratio",
           description:
             "Focus on paying off high-interest debt or consider a lower price point to improve your DTI ratio.",
           impact: `+${gap.potentialGain} points to your Home Ready Score`,
         };
+      case "income":
+        return {
+          priority: index + 1,
+          code: gap.code,
+          category: "income",
+          title: "Document Qualifying Income",
+          description:
+            `Lenders size your loan on income they can count. Salary and hourly pay count right away; self-employment and variable income need ${MIN_HISTORY_MONTHS}+ months of history.`,
+          impact: `+${gap.potentialGain} points to your Home Ready Score`,
+        };
+      case "employment":
+        return {
+          priority: index + 1,
+          code: gap.code,
+          category: "employment",
+          title: "Strengthen Your Work History",
+          description:
+            "Stay with your current employer or line of work. Lenders look for 2 years of steady income, and self-employed borrowers need 2 years of tax returns.",
+          impact: `+${gap.potentialGain} points to your Home Ready Score`,
+        };
       default:
         return {
           priority: index + 1,
+          code: gap.code,
           category: "general",
           title: "Improve Your Profile",
           description: gap.actionRequired,
@@ -434,121 +681,467 @@ function generateRecommendations(gaps: Gap[]): Recommendation[] {
 }
 
 // ============================================================================
-// DPA PROGRAM ELIGIBILITY (Utah-specific)
+// DPA PROGRAM ELIGIBILITY
 // ============================================================================
 
-// Program limits (2025 Utah values)
+// Federal program limits (2025 values). State assistance programs come from
+// the registry in ScoringConfig.assistancePrograms.
 const PROGRAM_LIMITS = {
-  firstHome: {
-    incomeLimitSmallHousehold: 121200,  // 1-2 person
-    incomeLimitLargeHousehold: 141400,  // 3+ person
-    minCreditScore: 660,
-    maxAssistancePercent: 0.06,
-  },
-  homeAgain: {
-    incomeLimit: 141400,
-    minCreditScore: 660,
-    maxAssistancePercent: 0.06,
-  },
   fha: {
     minCreditScore35Down: 580,
     minCreditScore10Down: 500,
   },
+  jumbo: {
+    minCreditScore: 700,                // Typical lender minimum
+  },
+  usda: {
+    incomeLimitSmallHousehold: 119850,  // 1-4 person
+    incomeLimitLargeHousehold: 158200,  // 5-8 person
+    amiPercent: 1.15,                   // Local limits are 115% of area median income
+    largeHouseholdFactor: 1.32,         // 5-8 person limit relative to 1-4 person
+    minCreditScore: 640,                // GUS automated approval
+  },
 };
 
-function checkDPAEligibility(
-  creditScore: number | null,
+// USDA income limit for the household (unknown size gets the 1-4 person limit).
+// With a local AMI the limit is 115% of it, never below the national base.
+function getUsdaIncomeLimit(householdSize: number | null, areaMedianIncome: number | null): number {
+  const size = knownHouseholdSize(householdSize);
+  const { incomeLimitSmallHousehold, incomeLimitLargeHousehold, amiPercent, largeHouseholdFactor } = PROGRAM_LIMITS.usda;
+  const small = areaMedianIncome !== null
+    ? Math.max(incomeLimitSmallHousehold, Math.round((areaMedianIncome * amiPercent) / 50) * 50)
+    : incomeLimitSmallHousehold;
+  const large = areaMedianIncome !== null
+    ? Math.max(incomeLimitLargeHousehold, Math.round((small * largeHouseholdFactor) / 50) * 50)
+    : incomeLimitLargeHousehold;
+  return size !== null && size >= 5 ? large : small;
+}
+
+// Describe an income limit, noting the household size when we know it
+function describeIncomeLimit(limit: number, householdSize: number | null): string {
+  const amount = `$${limit.toLocaleString('en-US')}`;
+  const size = knownHouseholdSize(householdSize);
+  return size !== null
+    ? `${amount} limit for a ${size}-person household`
+    : `${amount} limit`;
+}
+
+// Check USDA Rural Development eligibility (home must be in an eligible rural area)
+function checkUsdaEligibility(
+  score: number,
+  annualIncome: number,
+  ruralInterest: boolean | null,
+  utahResident: boolean | null,
+  householdSize: number | null,
+  areaMedianIncome: number | null,
+  waiting: WaitingPeriodStatus
+): { eligible: boolean; reason: string } {
+  const limit = getUsdaIncomeLimit(householdSize, areaMedianIncome);
+
+  if (ruralInterest !== true) {
+    return { eligible: false, reason: "Requires a home in a USDA-eligible rural area" };
+  }
+  if (!waiting.usda.eligibleNow) {
+    return { eligible: false, reason: describeWaitingPeriod(waiting.usda) };
+  }
+  if (score < PROGRAM_LIMITS.usda.minCreditScore) {
+    return { eligible: false, reason: `Requires 640+ credit (yours is ~${score})` };
+  }
+  if (annualIncome > limit) {
+    return { eligible: false, reason: `Income over ${describeIncomeLimit(limit, householdSize)}` };
+  }
+  return {
+    eligible: true,
+    reason: utahResident === false
+      ? "You qualify! The home must become your primary residence"
+      : "You qualify!",
+  };
+}
+
+// Whether the buyer meets an assistance program's requirements
+function qualifiesForProgram(
+  program: AssistanceProgram,
+  score: number,
   annualIncome: number,
-  targetPrice: number,
   firstTimeBuyer: boolean | null,
-  veteranStatus: string | null
-): DPAEligibility {
-  const score = creditScore || 650; // Default assumption if unknown
-  const isVeteran = veteranStatus && ["active", "veteran", "guard-reserve", "spouse"].includes(veteranStatus);
+  householdSize: number | null,
+  areaMedianIncome: number | null,
+  waiting: WaitingPeriodStatus
+): boolean {
+  return (
+    (!program.firstTimeBuyerRequired || firstTimeBuyer === true) &&
+    score >= program.minCreditScore &&
+    annualIncome <= getProgramIncomeLimit(program, householdSize, areaMedianIncome) &&
+    waiting[program.loanProgram].eligibleNow
+  );
+}
 
-  // Check Utah FirstHome (first-time buyer program)
-  const firstHomeEligible =
-    firstTimeBuyer === true &&
-    score >= PROGRAM_LIMITS.firstHome.minCreditScore &&
-    annualIncome <= PROGRAM_LIMITS.firstHome.incomeLimitLargeHousehold;
+// Check one registry assistance program
+function checkAssistanceProgram(
+  program: AssistanceProgram,
+  score: number,
+  annualIncome: number,
+  targetPrice: number,
+  firstTimeBuyer: boolean | null,
+  householdSize: number | null,
+  areaMedianIncome: number | null,
+  waiting: WaitingPeriodStatus
+): AssistanceEligibility {
+  const incomeLimit = getProgramIncomeLimit(program, householdSize, areaMedianIncome);
+  const programWaiting = waiting[program.loanProgram];
+  const { percentOfPrice, maxAmount } = program.assistance;
+  const amount = Math.min(targetPrice * percentOfPrice, maxAmount ?? Infinity);
+  const eligible = qualifiesForProgram(program, score, annualIncome, firstTimeBuyer, householdSize, areaMedianIncome, waiting);
 
-  const firstHomeResult = {
-    eligible: firstHomeEligible,
-    reason: !firstTimeBuyer
+  return {
+    id: program.id,
+    name: program.name,
+    eligible,
+    reason: program.firstTimeBuyerRequired && !firstTimeBuyer
       ? "First-time buyer status required"
-      : score < PROGRAM_LIMITS.firstHome.minCreditScore
-        ? `Requires 660+ credit (yours is ~${score})`
-        : annualIncome > PROGRAM_LIMITS.firstHome.incomeLimitLargeHousehold
-          ? `Income over $141,400 limit`
-          : "You qualify!",
-    benefit: `Up to ${formatCurrency(targetPrice * PROGRAM_LIMITS.firstHome.maxAssistancePercent)} (6%)`,
+      : score < program.minCreditScore
+        ? `Requires ${program.minCreditScore}+ credit (yours is ~${score})`
+        : annualIncome > incomeLimit
+          ? `Income over ${describeIncomeLimit(incomeLimit, householdSize)}`
+          : !programWaiting.eligibleNow
+            ? describeWaitingPeriod(programWaiting)
+            : "You qualify!",
+    benefit: maxAmount !== null && amount === maxAmount
+      ? `Up to ${formatCurrency(amount)}`
+      : `Up to ${formatCurrency(amount)} (${+(percentOfPrice * 100).toFixed(1)}%)`,
+    amount,
+    firstTimeBuyerRequired: program.firstTimeBuyerRequired,
   };
+}
+
+// Largest eligible assistance (registry order breaks ties)
+function getBestAssistance(assistance: AssistanceEligibility[]): AssistanceEligibility | null {
+  return assistance
+    .filter((a) => a.eligible)
+    .reduce<AssistanceEligibility | null>((best, a) => (!best || a.amount > best.amount ? a : best), null);
+}
+
+// County data for the buyer's location, if we have it
+function getLocation(values: ScoreValuesInput, config: Required<ScoringConfig>): LocationData | null {
+  return findLocation(config.locations, values.location);
+}
+
+// VA terms at a price, or null when the buyer isn't VA-eligible
+function getVaTerms(values: ScoreValuesInput, price: number): VaLoanTerms | null {
+  return isVaEligible(values.veteranStatus) ? getVaLoanTerms(price, values) : null;
+}
+
+// "0% down payment, no PMI" or, above a partial-entitlement limit,
+// "5% down ($20,000) above your $320k zero-down limit, no PMI"
+function describeVaBenefit(terms: VaLoanTerms | null): string {
+  let benefit = terms && terms.downPaymentRequired > 0
+    ? `${+(terms.downPaymentPercent * 100).toFixed(1)}% down ($${terms.downPaymentRequired.toLocaleString('en-US')}) above your ${formatCurrency(terms.zeroDownLimit ?? 0)} zero-down limit, no PMI`
+    : "0% down payment, no PMI";
+  if (terms?.fundingFeeExempt) benefit += ", funding fee waived";
+  return benefit;
+}
+
+// VA residual income at a price - only for buyers whose payments are
+// modeled on a VA loan
+function getResidualIncome(
+  values: ScoreValuesInput,
+  price: number,
+  monthlyIncome: number,
+  monthlyDebts: number,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): ResidualIncome | null {
+  if (plan.profile.program !== "va") return null;
+
+  const payment = calculatePaymentBreakdown(price, plan.downPaymentPercent, config, plan.profile);
+  const state = values.propertyState ?? getLocation(values, config)?.state ?? null;
+  return calculateResidualIncome(
+    monthlyIncome,
+    monthlyDebts,
+    payment.total,
+    payment.loanAmount,
+    values.householdSize ?? null,
+    getVaRegion(values.vaRegion, state)
+  );
+}
+
+// Highest price (to the nearest $5k below the target) at which a VA buyer
+// meets the residual income requirement
+function calculateMaxPriceForResidual(
+  values: ScoreValuesInput,
+  targetPrice: number,
+  monthlyIncome: number,
+  monthlyDebts: number,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): number {
+  let low = 0;
+  let high = Math.floor(targetPrice / 5000);
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const residual = getResidualIncome(values, mid * 5000, monthlyIncome, monthlyDebts, plan, config);
+    if (residual?.meetsRequirement) low = mid;
+    else high = mid - 1;
+  }
+  return low * 5000;
+}
 
-  // Check Utah HomeAgain (no first-time requirement)
-  const homeAgainEligible =
-    score >= PROGRAM_LIMITS.homeAgain.minCreditScore &&
-    annualIncome <= PROGRAM_LIMITS.homeAgain.incomeLimit;
-
-  const homeAgainResult = {
-    eligible: homeAgainEligible,
-    reason: score < PROGRAM_LIMITS.homeAgain.minCreditScore
-      ? `Requires 660+ credit (yours is ~${score})`
-      : annualIncome > PROGRAM_LIMITS.homeAgain.incomeLimit
-        ? `Income over $141,400 limit`
-        : "You qualify!",
-    benefit: `Up to ${formatCurrency(targetPrice * PROGRAM_LIMITS.homeAgain.maxAssistancePercent)} (6%)`,
+// Highest price (in $5k steps, up to the target) where savings, gifts and
+// assistance cover the plan's down payment and closing costs
+function calculateMaxPriceForCash(
+  values: ScoreValuesInput,
+  targetPrice: number,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): number {
+  let low = 0;
+  let high = Math.floor(targetPrice / 5000);
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (getCashToClose(values, mid * 5000, plan, config).shortfall === 0) low = mid;
+    else high = mid - 1;
+  }
+  return low * 5000;
+}
+
+// How the buyer's loan on the financing plan compares to the county's limits
+// (which apply to the base loan, before any financed upfront fee)
+function summarizeLocation(
+  area: LocationData,
+  targetPrice: number,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): LocationSummary {
+  const { loanAmount, baseLoanAmount } = calculatePaymentBreakdown(targetPrice, plan.downPaymentPercent, config, plan.profile);
+  return {
+    id: area.id,
+    county: area.county,
+    state: area.state,
+    propertyTaxRate: area.propertyTaxRate,
+    areaMedianIncome: area.areaMedianIncome,
+    fhaLimit: area.fhaLimit,
+    conformingLimit: area.conformingLimit,
+    loanAmount: Math.round(loanAmount),
+    overFhaLimit: baseLoanAmount > area.fhaLimit,
+    jumbo: baseLoanAmount > area.conformingLimit,
   };
+}
+
+// Assistance programs that apply to the buyer's home (a known county
+// supplies the state when it wasn't given)
+function getAssistancePrograms(values: ScoreValuesInput, config: Required<ScoringConfig>): AssistanceProgram[] {
+  const state = values.propertyState ?? getLocation(values, config)?.state ?? null;
+  return getProgramsForState(config.assistancePrograms, state);
+}
+
+function checkDPAEligibility(
+  creditScore: number | null,
+  annualIncome: number,
+  targetPrice: number,
+  firstTimeBuyer: boolean | null,
+  vaTerms: VaLoanTerms | null,
+  ruralInterest: boolean | null,
+  utahResident: boolean | null,
+  householdSize: number | null,
+  areaMedianIncome: number | null,
+  waiting: WaitingPeriodStatus,
+  assistancePrograms: AssistanceProgram[],
+  config: Required<ScoringConfig>
+): DPAEligibility {
+  const score = creditScore || 650; // Default assumption if unknown
+
+  // Check each assistance program in the registry
+  const assistance = assistancePrograms.map((program) =>
+    checkAssistanceProgram(program, score, annualIncome, targetPrice, firstTimeBuyer, householdSize, areaMedianIncome, waiting)
+  );
+  const eligibleAssistance = assistance.filter((a) => a.eligible);
+  const bestAssistance = getBestAssistance(assistance);
 
   // Check FHA eligibility
-  const fhaEligible = score >= PROGRAM_LIMITS.fha.minCreditScore10Down;
+  const fhaEligible = score >= PROGRAM_LIMITS.fha.minCreditScore10Down && waiting.fha.eligibleNow;
   const fhaDownPercent = score >= PROGRAM_LIMITS.fha.minCreditScore35Down ? 3.5 : 10;
 
   const fhaResult = {
     eligible: fhaEligible,
-    reason: !fhaEligible
+    reason: score < PROGRAM_LIMITS.fha.minCreditScore10Down
       ? `Requires 500+ credit (yours is ~${score})`
-      : `${fhaDownPercent}% down payment`,
+      : !waiting.fha.eligibleNow
+        ? describeWaitingPeriod(waiting.fha)
+        : `${fhaDownPercent}% down payment`,
     benefit: `${fhaDownPercent}% down (${formatCurrency(targetPrice * (fhaDownPercent / 100))})`,
   };
 
   // Check VA eligibility
+  const vaEligible = !!vaTerms && waiting.va.eligibleNow;
   const vaResult = {
-    eligible: !!isVeteran,
-    reason: isVeteran ? "Military service qualifies you" : "Requires military service",
-    benefit: "0% down payment, no PMI",
+    eligible: vaEligible,
+    reason: !vaTerms
+      ? "Requires military service"
+      : !waiting.va.eligibleNow
+        ? describeWaitingPeriod(waiting.va)
+        : vaTerms.entitlement === "partial"
+          ? `Remaining entitlement of ${formatCurrency(vaTerms.remainingEntitlement ?? 0)} covers ${formatCurrency(vaTerms.zeroDownLimit ?? 0)} with nothing down`
+          : "Military service qualifies you",
+    benefit: describeVaBenefit(vaTerms),
+    loanTerms: vaTerms,
   };
 
-  // Calculate total potential assistance
-  let totalAssistance = 0;
-  if (firstHomeEligible) {
-    totalAssistance += targetPrice * 0.06;
-  } else if (homeAgainEligible) {
-    totalAssistance += targetPrice * 0.06;
-  }
+  // Check USDA Rural Development eligibility
+  const usdaCheck = checkUsdaEligibility(score, annualIncome, ruralInterest, utahResident, householdSize, areaMedianIncome, waiting);
+  const usdaPayment = estimateMonthlyPayment(targetPrice, 0, config, { program: "usda" });
+  const usdaResult = {
+    eligible: usdaCheck.eligible,
+    reason: usdaCheck.reason,
+    benefit: `0% down (~${formatCurrency(usdaPayment)}/mo with USDA fees)`,
+  };
+
+  // Calculate total potential assistance (programs don't stack - the largest one counts)
+  const totalAssistance = bestAssistance ? bestAssistance.amount : 0;
 
   // Determine best program
   let bestProgram: string | null = null;
-  if (isVeteran) {
-    bestProgram = "VA Loan (0% down, no PMI)";
-  } else if (firstHomeEligible) {
-    bestProgram = "Utah FirstHome (up to 6% down payment help)";
-  } else if (homeAgainEligible) {
-    bestProgram = "Utah HomeAgain (up to 6% down payment help)";
+  if (vaEligible) {
+    bestProgram = vaTerms && vaTerms.downPaymentRequired > 0
+      ? `VA Loan (${+(vaTerms.downPaymentPercent * 100).toFixed(1)}% down, no PMI)`
+      : "VA Loan (0% down, no PMI)";
+  } else if (usdaResult.eligible) {
+    bestProgram = "USDA Rural Development (0% down)";
+  } else if (bestAssistance) {
+    bestProgram = `${bestAssistance.name} (up to ${formatCurrency(bestAssistance.amount)} down payment help)`;
   } else if (fhaEligible) {
     bestProgram = `FHA (${fhaDownPercent}% down)`;
   }
 
   return {
-    firstHome: firstHomeResult,
-    homeAgain: homeAgainResult,
+    assistance,
     fha: fhaResult,
     va: vaResult,
-    anyEligible: firstHomeEligible || homeAgainEligible || fhaEligible || !!isVeteran,
+    usda: usdaResult,
+    anyEligible: eligibleAssistance.length > 0 || fhaEligible || vaEligible || usdaResult.eligible,
     bestProgram,
     totalPotentialAssistance: totalAssistance,
   };
 }
 
+// ============================================================================
+// FINANCING PLAN
+// ============================================================================
+
+// When no plan's cash to close is covered, plans needing up to 1% of the
+// price more than the closest one still compete on payment
+const SHORTFALL_TOLERANCE = 0.01;
+
+// Whether the buyer's score (on the lender's policy) and waiting periods
+// allow a conventional loan today - with no event history, only the score
+function isConventionalAvailable(creditScore: number | null, waiting: WaitingPeriodStatus | null): boolean {
+  const score = creditScore || 650; // Default assumption if unknown
+  return score >= 620 && (waiting?.conventional.eligibleNow ?? true);
+}
+
+// The housing-ratio cap the buyer is held to: the program's cap, unless
+// conventional (which has none) is available to them as well. Every price
+// ceiling goes through this.
+function getHousingRatioLimit(
+  profile: PaymentProfile,
+  creditScore: number | null,
+  waiting: WaitingPeriodStatus | null
+): number | null {
+  const limit = HOUSING_RATIO_LIMITS[profile.program];
+  return limit !== null && !isConventionalAvailable(creditScore, waiting) ? limit : null;
+}
+
+// A VA loan at the down payment the buyer's entitlement calls for
+function getVaPlan(vaTerms: VaLoanTerms, creditScore: number, location: string | null): FinancingPlan {
+  return {
+    profile: {
+      program: "va",
+      vaSubsequentUse: vaTerms.subsequentUse,
+      vaFundingFeeExempt: vaTerms.fundingFeeExempt,
+      creditScore,
+      location,
+    },
+    downPaymentPercent: vaTerms.downPaymentPercent,
+  };
+}
+
+// The plan with the least down: VA when the entitlement covers more than
+// 96.5% of the price, the selected plan when it's FHA or 3.5% down or less,
+// otherwise FHA at its minimum for the buyer's score
+function getMinimumDownPaymentPlan(
+  values: ScoreValuesInput,
+  vaTerms: VaLoanTerms | null,
+  plan: FinancingPlan
+): FinancingPlan {
+  const score = getBorrowersScore(values, "lowest-middle")?.score || 650; // Default assumption if unknown
+  const location = values.location ?? null;
+  if (vaTerms && vaTerms.downPaymentPercent < Math.min(plan.downPaymentPercent, 0.035)) {
+    return getVaPlan(vaTerms, score, location);
+  }
+  if (plan.profile.program === "fha" || plan.downPaymentPercent <= 0.035) return plan;
+  return {
+    profile: { program: "fha", creditScore: score, location },
+    downPaymentPercent: score >= PROGRAM_LIMITS.fha.minCreditScore35Down ? 0.035 : 0.1,
+  };
+}
+
+// Pick the program whose payment the buyer's numbers are modeled on: the
+// lowest payment at the target price among programs available today, each
+// at its minimum down payment. Conventional is judged on the configured
+// score policy; the government programs on the lowest middle score.
+function chooseFinancingPlan(
+  values: ScoreValuesInput,
+  waiting: WaitingPeriodStatus,
+  config: Required<ScoringConfig>
+): FinancingPlan {
+  // Default assumption if unknown
+  const score = getBorrowersScore(values, "lowest-middle")?.score || 650;
+  const conventionalScore = getBorrowersScore(values, config.creditScorePolicy)?.score || 650;
+  const vaTerms = getVaTerms(values, values.targetHomePrice);
+  const location = values.location ?? null;
+  const fhaPlan: FinancingPlan = {
+    profile: { program: "fha", creditScore: score, location },
+    downPaymentPercent: score >= PROGRAM_LIMITS.fha.minCreditScore35Down ? 0.035 : 0.1,
+  };
+  const candidates: FinancingPlan[] = [];
+
+  if (vaTerms && waiting.va.eligibleNow) {
+    candidates.push(getVaPlan(vaTerms, score, location));
+  }
+  if (score >= PROGRAM_LIMITS.fha.minCreditScore10Down && waiting.fha.eligibleNow) {
+    candidates.push(fhaPlan);
+  }
+  if (isConventionalAvailable(conventionalScore, waiting)) {
+    candidates.push({
+      profile: { program: "conventional", creditScore: conventionalScore, location },
+      downPaymentPercent: values.firstTimeBuyer ? 0.03 : 0.05,
+    });
+  }
+
+  // Nothing available yet - model FHA, usually the first program to open up
+  if (candidates.length === 0) return fhaPlan;
+
+  // Only plans the buyer's cash can close on compete - or, when none can,
+  // those within reach of the smallest shortfall
+  const price = values.targetHomePrice;
+  const shortfall = (plan: FinancingPlan) => getCashToClose(values, price, plan, config).shortfall;
+  const minShortfall = Math.min(...candidates.map(shortfall));
+  const reach = minShortfall > 0 ? price * SHORTFALL_TOLERANCE : 0;
+  const closable = candidates.filter((plan) => shortfall(plan) <= minShortfall + reach);
+  return (closable.length > 0 ? closable : candidates).reduce((best, plan) =>
+    planPayment(price, plan, config) < planPayment(price, best, config) ? plan : best
+  );
+}
+
+/**
+ * Select the loan program and down payment a buyer's payments should be
+ * modeled on. Pass the result to calculateAffordability to get budgets for
+ * the buyer's best program.
+ */
+export function selectFinancingPlan(input: ScoreValuesInput, config: ScoringConfig = {}): FinancingPlan {
+  const resolved = resolveConfig(config, input.location);
+  return combineForPlan(input, resolved).plan;
+}
+
 // ============================================================================
 // PATH FORWARD CALCULATIONS
 // ============================================================================
@@ -579,15 +1172,35 @@ function calculateIncomeForDti(
   return Math.max(0, Math.round(increase));
 }
 
-// Calculate current DTI
+// Calculate current DTI (null without qualifying income)
 function calculateCurrentDti(
   monthlyIncome: number,
   monthlyDebts: number,
   housingPayment: number
-): number {
+): number | null {
+  if (monthlyIncome <= 0) return null;
   return Math.round(((housingPayment + monthlyDebts) / monthlyIncome) * 100);
 }
 
+// Calculate the housing ratio (housing payment alone, before other debts)
+function calculateHousingRatio(monthlyIncome: number, housingPayment: number): number | null {
+  if (monthlyIncome <= 0) return null;
+  return Math.round((housingPayment / monthlyIncome) * 100);
+}
+
+// USDA zero-down solution, offered by both down payment blockers
+function usdaZeroDownSolution(targetPrice: number, config: Required<ScoringConfig>): Solution {
+  return {
+    type: 'DPA_PROGRAMS',
+    code: 'USDA_ZERO_DOWN',
+    params: {},
+    description: `USDA Rural Development offers 0% down on homes in eligible rural areas`,
+    impact: `No down payment needed - guarantee fees are built into the payment`,
+    actionLabel: 'See rural home options',
+    monthlyPayment: Math.round(estimateMonthlyPayment(targetPrice, 0, config, { program: 'usda' })),
+  };
+}
+
 // Detect the primary blocker preventing home readiness
 function detectPrimaryBlocker(
   creditScore: number | null,
@@ -600,48 +1213,291 @@ function detectPrimaryBlocker(
   saved: number,
   veteranStatus: string | null,
   annualIncome: number,
-  firstTimeBuyer: boolean | null
+  firstTimeBuyer: boolean | null,
+  employmentPoints: number,
+  values: ScoreValuesInput,
+  waiting: WaitingPeriodStatus,
+  asOf: Date,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
 ): PrimaryBlocker | null {
   // Check DPA eligibility upfront
+  const assistancePrograms = getAssistancePrograms(values, config);
+  const areaMedianIncome = getLocation(values, config)?.areaMedianIncome ?? null;
+  const vaTerms = getVaTerms(values, targetPrice);
   const dpaEligibility = checkDPAEligibility(
     creditScore,
     annualIncome,
     targetPrice,
     firstTimeBuyer,
-    veteranStatus
+    vaTerms,
+    values.ruralInterest ?? null,
+    values.utahResident ?? null,
+    values.householdSize ?? null,
+    areaMedianIncome,
+    waiting,
+    assistancePrograms,
+    config
   );
-  const housingPayment = estimateMonthlyPayment(targetPrice);
+  const housingPayment = planPayment(targetPrice, plan, config);
   const currentDti = calculateCurrentDti(monthlyIncome, monthlyDebts, housingPayment);
-  const downPaymentPercent = (saved / targetPrice) * 100;
+  const housingRatio = calculateHousingRatio(monthlyIncome, housingPayment);
+  const housingLimit = getHousingRatioLimit(
+    plan.profile,
+    getBorrowersScore(values, config.creditScorePolicy)?.score ?? null,
+    waiting
+  );
+  const programLabel = plan.profile.program.toUpperCase();
+  const residual = getResidualIncome(values, targetPrice, monthlyIncome, monthlyDebts, plan, config);
+  // VA looks past DTI over 41% when residual income clears its table by 20%
+  const residualCompensates: Solution | null = residual && residual.dti > 41 && residual.meetsRequirement
+    ? {
+      type: 'DPA_PROGRAMS',
+      code: 'VA_RESIDUAL_INCOME_COMPENSATES',
+      params: { residualIncome: residual.residualIncome, required: residual.required },
+      description: `Your residual income of $${residual.residualIncome.toLocaleString('en-US')}/mo clears VA's $${residual.required.toLocaleString('en-US')} requirement by ${Math.round((residual.residualIncome / residual.required - 1) * 100)}%`,
+      impact: `VA treats strong residual income as a compensating factor for DTI above 41%`,
+      actionLabel: 'Explore VA options',
+    }
+    : null;
+  // Registry-wide assistance requirements for the copy below: the most
+  // generous income limit and the lowest credit minimum in the buyer's area
+  // (660, a common program minimum, when none applies)
+  const householdSize = values.householdSize ?? null;
+  const hasAssistance = assistancePrograms.length > 0;
+  const assistanceIncomeLimit = hasAssistance
+    ? Math.max(...assistancePrograms.map((p) => getProgramIncomeLimit(p, householdSize, areaMedianIncome)))
+    : 0;
+  const assistanceMinCredit = hasAssistance
+    ? Math.min(...assistancePrograms.map((p) => p.minCreditScore))
+    : 660;
+  const sponsors = [...new Set(assistancePrograms.map((p) => p.sponsor))];
+  const assistanceLabel = sponsors.length === 1 ? `${sponsors[0]} assistance` : 'down payment assistance';
+  const potentialAssistance = Math.max(0, ...assistancePrograms.map((p) =>
+    Math.min(targetPrice * p.assistance.percentOfPrice, p.assistance.maxAmount ?? Infinity)
+  ));
+  const assistanceParams = {
+    overIncomeLimit: annualIncome > assistanceIncomeLimit,
+    belowMinCredit: creditScore !== null && creditScore < assistanceMinCredit,
+    incomeLimit: assistanceIncomeLimit,
+  };
+  const bestAssistance = getBestAssistance(dpaEligibility.assistance);
+  const firstTimeProgram = assistancePrograms.find((p) => p.firstTimeBuyerRequired) ?? null;
+  const firstTimeIncomeLimit = firstTimeProgram
+    ? getProgramIncomeLimit(firstTimeProgram, householdSize, areaMedianIncome)
+    : Infinity;
+  const overFirstTimeLimit = firstTimeBuyer === true && annualIncome > firstTimeIncomeLimit;
+  const assistanceImpact = (best: AssistanceEligibility): string => overFirstTimeLimit && firstTimeProgram
+    ? `Your income is over ${firstTimeProgram.name}'s ${describeIncomeLimit(firstTimeIncomeLimit, householdSize)}, but ${best.name} offers ${best.benefit.toLowerCase()} with no first-time buyer requirement`
+    : `Down payment assistance ${best.benefit.toLowerCase()} — no first-time buyer requirement`;
+  // What the next credit pricing tier is worth at the target price
+  const rateTier = creditScore !== null ? getRateTierSavings(targetPrice, plan, config) : null;
+  const rateTierSolution = (tier: { targetScore: number; monthlySavings: number }, timeline: string): Solution => ({
+    type: 'IMPROVE_CREDIT',
+    code: 'IMPROVE_CREDIT_RATE_TIER',
+    params: { targetScore: tier.targetScore, monthlySavings: tier.monthlySavings },
+    description: `Reaching ${tier.targetScore} lowers your payment by ${formatCurrency(tier.monthlySavings)}/mo`,
+    impact: plan.profile.program === 'conventional'
+      ? `A lower rate and PMI at ${formatCurrency(targetPrice)}`
+      : `A lower rate at ${formatCurrency(targetPrice)}`,
+    timeline,
+    actionLabel: 'See credit tips',
+  });
 
-  // Check DTI first (most common blocker)
-  if (currentDti > 50) {
+  // Check waiting periods after bankruptcy, foreclosure or short sale first -
+  // nothing else matters until a loan program is available
+  const isVeteran = vaTerms !== null;
+  if (!waiting.fha.eligibleNow && !(isVeteran && waiting.va.eligibleNow) && waiting.fha.eligibleDate) {
+    const fhaDate = formatDisplayDate(waiting.fha.eligibleDate);
+    const monthsToGo = monthsUntil(waiting.fha.eligibleDate, asOf);
+    const eventLabel = waiting.fha.blockingEvent ? DEROGATORY_EVENT_LABELS[waiting.fha.blockingEvent] : 'credit event';
+    const solutions: Solution[] = [];
+
+    if (isVeteran && waiting.va.eligibleDate && waiting.va.eligibleDate < waiting.fha.eligibleDate) {
+      solutions.push({
+        type: 'DPA_PROGRAMS',
+        code: 'VA_ELIGIBLE_SOONER',
+        params: { eligibleDate: waiting.va.eligibleDate, monthsToGo: monthsUntil(waiting.va.eligibleDate, asOf) },
+        description: `VA financing opens up sooner, on ${formatDisplayDate(waiting.va.eligibleDate)}`,
+        impact: `${describeVaBenefit(vaTerms)} once you're eligible`,
+        timeline: `${monthsUntil(waiting.va.eligibleDate, asOf)} months`,
+        actionLabel: 'Explore VA options',
+      });
+    }
+
+    solutions.push({
+      type: 'IMPROVE_CREDIT',
+      code: 'REBUILD_CREDIT_DURING_WAIT',
+      params: { monthsToGo },
+      description: `Keep every account current and rebuild with on-time payments`,
+      impact: `You'll have a stronger score the day the waiting period ends`,
+      timeline: `${monthsToGo} months`,
+      actionLabel: 'See credit rebuilding tips',
+    });
+
+    solutions.push({
+      type: 'SAVE_MORE',
+      code: 'SAVE_DURING_WAIT',
+      params: { monthsToGo },
+      description: `Use the wait to build your down payment and reserves`,
+      impact: `More savings means more options when you're eligible`,
+      timeline: `${monthsToGo} months`,
+      actionLabel: 'Create savings plan',
+    });
+
+    const conventionalDate = waiting.conventional.eligibleDate;
+    return {
+      type: 'CREDIT',
+      code: 'WAITING_PERIOD_FHA',
+      params: { eligibleDate: waiting.fha.eligibleDate, monthsToGo, event: waiting.fha.blockingEvent },
+      severity: monthsToGo > 12 ? 'critical' : 'significant',
+      headline: `You'll be eligible for FHA on ${fhaDate}`,
+      subheadline: conventionalDate && conventionalDate > waiting.fha.eligibleDate
+        ? `That's when the waiting period after your ${eventLabel} ends. Conventional loans follow on ${formatDisplayDate(conventionalDate)}.`
+        : `That's when the waiting period after your ${eventLabel} ends.`,
+      currentValue: `${monthsToGo} months to go`,
+      targetValue: fhaDate,
+      solutions,
+    };
+  }
+
+  // Check for qualifying income - without any, there's no DTI to work with
+  if (currentDti === null || housingRatio === null) {
+    const needsHistory = (values.incomeSources ?? []).some((source) => HISTORY_INCOME_TYPES.includes(source.type));
+    return {
+      type: 'INCOME',
+      code: 'NO_QUALIFYING_INCOME',
+      params: { targetPrice },
+      severity: 'critical',
+      headline: `None of your income counts toward qualifying yet`,
+      subheadline: `Lenders size the loan on income they can document. Here's how to get there:`,
+      currentValue: formatCurrency(0),
+      targetValue: 'Documented income',
+      solutions: [{
+        type: 'INCREASE_INCOME',
+        code: 'DOCUMENT_QUALIFYING_INCOME',
+        params: {},
+        description: needsHistory
+          ? `Self-employment, commission, bonus and overtime income counts once it has ${MIN_HISTORY_MONTHS}+ months of history`
+          : `Add income lenders can count, like a salary or a co-borrower's income`,
+        impact: `Qualifying income is what every loan program's DTI limit is measured against`,
+        actionLabel: 'Review your income',
+      }],
+    };
+  }
+
+  // Check VA residual income - what's left after taxes, housing, debts and
+  // upkeep often decides VA approvals more than DTI does
+  if (residual && !residual.meetsRequirement) {
     const solutions: Solution[] = [];
+    const formatAmount = (amount: number) => `$${amount.toLocaleString('en-US')}`;
+
+    const residualPrice = calculateMaxPriceForResidual(values, targetPrice, monthlyIncome, monthlyDebts, plan, config);
+    if (residualPrice > 0 && residualPrice < targetPrice) {
+      solutions.push({
+        type: 'ADJUST_PRICE',
+        code: 'PRICE_FOR_VA_RESIDUAL_INCOME',
+        params: { newPrice: residualPrice },
+        description: `Target homes around ${formatCurrency(residualPrice)} instead`,
+        impact: `Leaves enough each month to meet VA's residual income requirement`,
+        actionLabel: 'See homes in this range',
+        newPrice: residualPrice,
+        monthlyPayment: Math.round(planPayment(residualPrice, plan, config)),
+      });
+    }
+
+    if (residual.shortfall <= monthlyDebts) {
+      solutions.push({
+        type: 'PAY_DOWN_DEBT',
+        code: 'PAY_DOWN_DEBT_FOR_VA_RESIDUAL_INCOME',
+        params: { debtReduction: residual.shortfall },
+        description: `Reduce monthly debt payments by ${formatAmount(residual.shortfall)}/mo`,
+        impact: `Every dollar of debt paid off adds a dollar of residual income`,
+        timeline: residual.shortfall > 500 ? '6-12 months' : '3-6 months',
+        actionLabel: 'See payoff strategies',
+        debtReduction: residual.shortfall,
+      });
+    }
+
+    // Raises are taxed, so it takes more gross income than the shortfall
+    const incomeIncrease = Math.ceil(residual.shortfall / (1 - ESTIMATED_TAX_RATE));
+    solutions.push({
+      type: 'INCREASE_INCOME',
+      code: 'INCREASE_INCOME_FOR_VA_RESIDUAL_INCOME',
+      params: { incomeIncrease },
+      description: `Increase monthly income by ${formatCurrency(incomeIncrease)}`,
+      impact: `Covers the ${formatAmount(residual.shortfall)} residual income gap after taxes`,
+      timeline: '3-6 months',
+      actionLabel: 'Explore options',
+      incomeIncrease,
+    });
+
+    const family = residual.familySize === 1 ? 'a single borrower' : `a family of ${residual.familySize}`;
+    const region = `${residual.region.charAt(0).toUpperCase()}${residual.region.slice(1)}`;
+    return {
+      type: 'DTI',
+      code: 'VA_RESIDUAL_INCOME_SHORT',
+      params: {
+        residualIncome: residual.residualIncome,
+        required: residual.requiredWithDti,
+        shortfall: residual.shortfall,
+        region: residual.region,
+        familySize: residual.familySize,
+      },
+      severity: residual.shortfall > 300 ? 'significant' : 'minor',
+      headline: `After taxes, housing and debts, about ${formatAmount(Math.max(0, residual.residualIncome))} a month would be left over`,
+      subheadline: residual.requiredWithDti > residual.required
+        ? `VA requires ${formatAmount(residual.required)} for ${family} in the ${region}, plus 20% at ${residual.dti}% DTI. Here's how to close the gap:`
+        : `VA requires ${formatAmount(residual.required)} for ${family} in the ${region}. Here's how to close the gap:`,
+      currentValue: formatAmount(residual.residualIncome),
+      targetValue: `${formatAmount(residual.requiredWithDti)}+`,
+      solutions,
+    };
+  }
 
-    // Option 1: Lower price
-    const affordablePrice = calculateMaxPriceForDti(monthlyIncome, monthlyDebts, 43);
+  // Check DTI (most common blocker)
+  if (currentDti > 50) {
+    const solutions: Solution[] = residualCompensates ? [residualCompensates] : [];
+
+    // Option 1: Lower price (within the program's housing-ratio cap too)
+    const affordable = calculateMaxPrice(monthlyIncome, monthlyDebts, 43, housingLimit, plan.downPaymentPercent, config, plan.profile);
+    const affordablePrice = affordable.maxPrice;
     if (affordablePrice > 0 && affordablePrice < targetPrice) {
-      const newPayment = estimateMonthlyPayment(affordablePrice);
+      const newPayment = planPayment(affordablePrice, plan, config);
       solutions.push({
         type: 'ADJUST_PRICE',
+        code: 'PRICE_FOR_43_DTI',
+        params: { newPrice: affordablePrice },
         description: `Target homes around ${formatCurrency(affordablePrice)} instead`,
-        impact: `Brings your DTI to 43% - within lender guidelines`,
+        impact: affordable.limitedBy === 'housing-ratio'
+          ? `Keeps your housing payment within ${programLabel}'s ${housingLimit}% of income - and your DTI under 43%`
+          : `Brings your DTI to 43% - within lender guidelines`,
         actionLabel: 'See homes in this range',
         newPrice: affordablePrice,
         monthlyPayment: Math.round(newPayment),
       });
     }
 
-    // Option 2: Pay down debt
+    // Option 2: Pay down debt (with itemized debts, plan which accounts to pay off)
     const debtReduction = calculateDebtReductionForDti(monthlyIncome, monthlyDebts, housingPayment, 43);
     if (debtReduction > 0 && debtReduction <= monthlyDebts) {
+      const payoffPlan = buildPayoffPlan(values, getSavingsCapacity(values).monthlyDebtPaydown, plan, config);
+      const lumpSum = payoffPlan?.lumpSums.find((l) => l.targetDti === 43 && l.reachable) ?? null;
+      const best = payoffPlan?.strategies.find((s) => s.strategy === payoffPlan.recommended) ?? null;
       solutions.push({
         type: 'PAY_DOWN_DEBT',
-        description: `Reduce monthly debt payments by ${formatCurrency(debtReduction)}/mo`,
+        code: 'PAY_DOWN_DEBT_FOR_43_DTI',
+        params: { debtReduction, lumpSum: lumpSum?.lumpSum ?? null },
+        description: lumpSum
+          ? `Pay off ${formatList(lumpSum.accounts)} (${formatCurrency(lumpSum.lumpSum)}) to cut ${formatCurrency(debtReduction)}/mo`
+          : `Reduce monthly debt payments by ${formatCurrency(debtReduction)}/mo`,
         impact: `Brings your DTI to 43% at your target price`,
-        timeline: debtReduction > 500 ? '6-12 months' : '3-6 months',
+        timeline: best?.monthsTo43
+          ? `${best.monthsTo43} months paying ${PAYOFF_STRATEGY_LABELS[best.strategy]}`
+          : debtReduction > 500 ? '6-12 months' : '3-6 months',
         actionLabel: 'See payoff strategies',
         debtReduction,
+        ...(payoffPlan ? { payoffPlan } : {}),
       });
     }
 
@@ -650,6 +1506,8 @@ function detectPrimaryBlocker(
     if (incomeIncrease > 0) {
       solutions.push({
         type: 'INCREASE_INCOME',
+        code: 'INCREASE_INCOME_FOR_43_DTI',
+        params: { incomeIncrease },
         description: `Increase monthly income by ${formatCurrency(incomeIncrease)}`,
         impact: `Brings your DTI to 43% at your target price`,
         timeline: '3-6 months',
@@ -660,6 +1518,8 @@ function detectPrimaryBlocker(
 
     return {
       type: 'DTI',
+      code: 'DTI_OVER_50',
+      params: { dti: currentDti, limit: 50, targetPrice },
       severity: currentDti > 57 ? 'critical' : 'significant',
       headline: `Your dream home at ${formatCurrency(targetPrice)} would take about ${currentDti}% of your monthly income`,
       subheadline: `Lenders typically want to see 43% or less. Here are your options:`,
@@ -673,10 +1533,16 @@ function detectPrimaryBlocker(
   if (currentDti > 43 && currentDti <= 50) {
     const solutions: Solution[] = [];
 
+    if (residualCompensates) {
+      solutions.push(residualCompensates);
+    }
+
     // Can still qualify for FHA at higher DTI (if eligible)
     if (dpaEligibility.fha.eligible) {
       solutions.push({
         type: 'DPA_PROGRAMS',
+        code: 'FHA_ALLOWS_HIGHER_DTI',
+        params: { maxDti: 50 },
         description: `FHA loans allow up to 50% DTI with compensating factors`,
         impact: `You may still qualify - let's discuss your full picture`,
         actionLabel: 'Explore FHA options',
@@ -684,20 +1550,27 @@ function detectPrimaryBlocker(
     }
 
     // Option: Lower price for more comfort
-    const comfortablePrice = calculateMaxPriceForDti(monthlyIncome, monthlyDebts, 36);
+    const comfortable = calculateMaxPrice(monthlyIncome, monthlyDebts, 36, HOUSING_RATIO_GUIDELINE, plan.downPaymentPercent, config, plan.profile);
+    const comfortablePrice = comfortable.maxPrice;
     if (comfortablePrice > 0 && comfortablePrice < targetPrice * 0.9) {
       solutions.push({
         type: 'ADJUST_PRICE',
+        code: 'PRICE_FOR_36_DTI',
+        params: { newPrice: comfortablePrice },
         description: `For more financial breathing room, consider ${formatCurrency(comfortablePrice)}`,
-        impact: `Comfortable 36% DTI with room for life's surprises`,
+        impact: comfortable.limitedBy === 'housing-ratio'
+          ? `Comfortable 28% housing payment with room for life's surprises`
+          : `Comfortable 36% DTI with room for life's surprises`,
         actionLabel: 'See comfortable range',
         newPrice: comfortablePrice,
-        monthlyPayment: Math.round(estimateMonthlyPayment(comfortablePrice)),
+        monthlyPayment: Math.round(planPayment(comfortablePrice, plan, config)),
       });
     }
 
     return {
       type: 'DTI',
+      code: 'DTI_OVER_43',
+      params: { dti: currentDti, limit: 43, targetPrice },
       severity: 'minor',
       headline: `At ${formatCurrency(targetPrice)}, about ${currentDti}% of your income goes to housing + debt`,
       subheadline: `This is on the higher side (lenders prefer 43%), but you have options:`,
@@ -707,60 +1580,150 @@ function detectPrimaryBlocker(
     };
   }
 
-  // Check down payment
-  const isVeteranEligible = veteranStatus && ["active", "veteran", "guard-reserve", "spouse"].includes(veteranStatus);
-  const minDownPayment = isVeteranEligible ? 0 : targetPrice * 0.035;
-  if (saved < minDownPayment) {
-    const shortfall = minDownPayment - saved;
+  // Check the housing ratio - FHA and USDA cap the housing payment alone,
+  // even when total DTI is fine
+  if (housingLimit !== null && housingRatio > housingLimit) {
+    const solutions: Solution[] = [];
+
+    const affordable = calculateMaxPrice(monthlyIncome, monthlyDebts, 43, housingLimit, plan.downPaymentPercent, config, plan.profile);
+    if (affordable.maxPrice > 0 && affordable.maxPrice < targetPrice) {
+      solutions.push({
+        type: 'ADJUST_PRICE',
+        code: 'PRICE_FOR_HOUSING_RATIO',
+        params: { newPrice: affordable.maxPrice, housingRatio: housingLimit },
+        description: `Target homes around ${formatCurrency(affordable.maxPrice)} instead`,
+        impact: `Keeps your housing payment within ${housingLimit}% of income`,
+        actionLabel: 'See homes in this range',
+        newPrice: affordable.maxPrice,
+        monthlyPayment: Math.round(planPayment(affordable.maxPrice, plan, config)),
+      });
+    }
+
+    const incomeIncrease = calculateIncomeForDti(monthlyIncome, 0, housingPayment, housingLimit);
+    if (incomeIncrease > 0) {
+      solutions.push({
+        type: 'INCREASE_INCOME',
+        code: 'INCREASE_INCOME_FOR_HOUSING_RATIO',
+        params: { incomeIncrease, housingRatio: housingLimit },
+        description: `Increase monthly income by ${formatCurrency(incomeIncrease)}`,
+        impact: `Brings your housing payment to ${housingLimit}% of income at your target price`,
+        timeline: '3-6 months',
+        actionLabel: 'Explore options',
+        incomeIncrease,
+      });
+    }
+
+    return {
+      type: 'DTI',
+      code: 'HOUSING_RATIO_OVER_LIMIT',
+      params: { housingRatio, limit: housingLimit, targetPrice },
+      severity: housingRatio > housingLimit + 5 ? 'significant' : 'minor',
+      headline: `At ${formatCurrency(targetPrice)}, your housing payment alone would take about ${housingRatio}% of your income`,
+      subheadline: `${programLabel} caps the housing payment at ${housingLimit}% of income, even with low debts. Here are your options:`,
+      currentValue: `${housingRatio}%`,
+      targetValue: `${housingLimit}% or less`,
+      solutions,
+    };
+  }
+
+  // Check cash to close: the minimum down payment plus closing costs, less
+  // seller concessions, gifts and assistance. VA needs nothing down within
+  // the buyer's entitlement and 25% of the excess above it; otherwise the
+  // selected plan's down payment, or FHA's when the plan asks for more.
+  const isVeteranEligible = vaTerms !== null;
+  const minPlan = getMinimumDownPaymentPlan(values, vaTerms, plan);
+  const minDownPercent = +(minPlan.downPaymentPercent * 100).toFixed(1);
+  const minDownLabel = minPlan.profile.program === 'va'
+    ? `${minDownPercent}% VA down payment`
+    : `${minDownPercent}% down`;
+  const minCash = getCashToClose(values, targetPrice, minPlan, config);
+  if (minCash.shortfall > 0) {
+    const shortfall = minCash.shortfall;
+    const netClosingCosts = minCash.closingCosts.total - minCash.sellerConcessions;
+    const otherFunds = minCash.giftFunds + minCash.downPaymentAssistance;
     const solutions: Solution[] = [];
 
     // Option 1: Lower price to match savings
-    const affordableWithSavings = saved / 0.035;
+    const affordableWithSavings = calculateMaxPriceForCash(values, targetPrice, minPlan, config);
     if (affordableWithSavings >= 200000) {
       solutions.push({
         type: 'ADJUST_PRICE',
-        description: `Your ${formatCurrency(saved)} covers 3.5% down on a ${formatCurrency(affordableWithSavings)} home`,
+        code: 'PRICE_FOR_SAVINGS',
+        params: { newPrice: affordableWithSavings },
+        description: `Your ${formatCurrency(saved)}${otherFunds > 0 ? ' plus gifts and assistance' : ''} covers ${minDownLabel} and closing costs on a ${formatCurrency(affordableWithSavings)} home`,
         impact: `Ready to buy today at this price point`,
         actionLabel: 'See homes in range',
-        newPrice: Math.round(affordableWithSavings / 5000) * 5000,
-        monthlyPayment: Math.round(estimateMonthlyPayment(affordableWithSavings)),
+        newPrice: affordableWithSavings,
+        monthlyPayment: Math.round(planPayment(affordableWithSavings, minPlan, config)),
       });
     }
 
     // Option 2: Save more
-    const monthsToSave = Math.ceil(shortfall / 500); // Assume $500/mo savings
+    const { monthlySavings } = getSavingsCapacity(values);
+    const monthsToSave = monthlySavings > 0 ? Math.ceil(shortfall / monthlySavings) : null;
     solutions.push({
       type: 'SAVE_MORE',
-      description: `Save ${formatCurrency(shortfall)} more to reach 3.5% down`,
-      impact: `At $500/month, that's about ${monthsToSave} months`,
-      timeline: `${monthsToSave} months`,
+      code: 'SAVE_FOR_PLAN_MIN',
+      params: {
+        amount: Math.round(shortfall),
+        monthlySavings,
+        months: monthsToSave,
+        program: minPlan.profile.program,
+        downPaymentPercent: minDownPercent,
+      },
+      description: `Save ${formatCurrency(shortfall)} more to cover ${minDownLabel} and closing costs`,
+      impact: monthsToSave !== null
+        ? `At ${formatCurrency(monthlySavings)}/month, that's about ${monthsToSave} months`
+        : `Setting aside even a small amount each month gets you there`,
+      timeline: monthsToSave !== null ? `${monthsToSave} months` : undefined,
       actionLabel: 'Create savings plan',
     });
 
-    // Option 3: DPA programs (only if eligible)
-    if (dpaEligibility.firstHome.eligible) {
+    // Seller concessions can pay closing costs up to the program's cap
+    const concessionRoom = Math.min(minCash.sellerConcessionCap, minCash.closingCosts.total) - minCash.sellerConcessions;
+    if (concessionRoom > 0) {
       solutions.push({
-        type: 'DPA_PROGRAMS',
-        description: `Utah FirstHome could provide ${dpaEligibility.firstHome.benefit}`,
-        impact: `First-time buyer program with 6% down payment assistance`,
-        actionLabel: 'Learn about FirstHome',
+        type: 'SELLER_CONCESSIONS',
+        code: 'NEGOTIATE_SELLER_CONCESSIONS',
+        params: { amount: concessionRoom, cap: minCash.sellerConcessionCap },
+        description: `Ask the seller to cover up to ${formatCurrency(concessionRoom)} of your closing costs`,
+        impact: concessionRoom >= shortfall
+          ? `Closes the gap without saving more`
+          : `Leaves ${formatCurrency(shortfall - concessionRoom)} to save`,
+        actionLabel: 'Talk to your agent about concessions',
       });
-    } else if (dpaEligibility.homeAgain.eligible) {
+    }
+
+    // USDA: 0% down for homes in eligible rural areas
+    if (dpaEligibility.usda.eligible) {
+      solutions.push(usdaZeroDownSolution(targetPrice, config));
+    }
+
+    // Option 3: DPA programs (only if eligible)
+    if (bestAssistance) {
       solutions.push({
         type: 'DPA_PROGRAMS',
-        description: `Utah HomeAgain could provide ${dpaEligibility.homeAgain.benefit}`,
-        impact: `Down payment assistance up to 6% — no first-time buyer requirement`,
-        actionLabel: 'Learn about HomeAgain',
+        code: 'ASSISTANCE_AVAILABLE',
+        params: { programId: bestAssistance.id, amount: Math.round(bestAssistance.amount) },
+        description: `${bestAssistance.name} could provide ${bestAssistance.benefit}`,
+        impact: bestAssistance.firstTimeBuyerRequired
+          ? `First-time buyer program with up to ${formatCurrency(bestAssistance.amount)} in down payment assistance`
+          : assistanceImpact(bestAssistance),
+        actionLabel: `Learn about ${bestAssistance.name}`,
       });
-    } else if (dpaEligibility.fha.eligible && !dpaEligibility.firstHome.eligible && !dpaEligibility.homeAgain.eligible) {
+    } else if (dpaEligibility.fha.eligible) {
       // Explain why down payment assistance isn't available but FHA is
-      const whyNoAssistance = annualIncome > PROGRAM_LIMITS.homeAgain.incomeLimit
-        ? `Your income exceeds assistance limits ($141k)`
-        : (creditScore && creditScore < 660)
-          ? `Down payment assistance requires 660+ credit`
-          : `You may not qualify for Utah assistance programs`;
+      const whyNoAssistance = !hasAssistance
+        ? `No down payment assistance programs are listed for your area`
+        : annualIncome > assistanceIncomeLimit
+          ? `Your income exceeds assistance limits (${formatCurrency(assistanceIncomeLimit)})`
+          : (creditScore && creditScore < assistanceMinCredit)
+            ? `Down payment assistance requires ${assistanceMinCredit}+ credit`
+            : `You may not qualify for ${assistanceLabel} programs`;
       solutions.push({
         type: 'DPA_PROGRAMS',
+        code: 'ASSISTANCE_UNAVAILABLE_FHA_AVAILABLE',
+        params: assistanceParams,
         description: `${whyNoAssistance}, but FHA allows ${dpaEligibility.fha.benefit}`,
         impact: `Lower down payment requirement than conventional loans`,
         actionLabel: 'Explore FHA options',
@@ -769,11 +1732,20 @@ function detectPrimaryBlocker(
 
     return {
       type: 'DOWN_PAYMENT',
+      code: 'DP_BELOW_PLAN_MIN',
+      params: {
+        saved,
+        required: minCash.cashToClose,
+        shortfall,
+        closingCosts: netClosingCosts,
+        program: minPlan.profile.program,
+        downPaymentPercent: minDownPercent,
+      },
       severity: shortfall > 20000 ? 'significant' : 'minor',
       headline: `You've saved ${formatCurrency(saved)} — great start!`,
-      subheadline: `For a ${formatCurrency(targetPrice)} home, you'd need about ${formatCurrency(minDownPayment)} (3.5% down). Here's how to bridge the gap:`,
+      subheadline: `For a ${formatCurrency(targetPrice)} home, you'd need about ${formatCurrency(minCash.cashToClose)} at closing (${minDownLabel} plus ${formatCurrency(netClosingCosts)} in closing costs${otherFunds > 0 ? `, less ${formatCurrency(otherFunds)} in gifts and assistance` : ''}). Here's how to bridge the gap:`,
       currentValue: formatCurrency(saved),
-      targetValue: formatCurrency(minDownPayment),
+      targetValue: formatCurrency(minCash.cashToClose),
       solutions,
     };
   }
@@ -781,64 +1753,75 @@ function detectPrimaryBlocker(
   // Check for low down payment even if technically meeting minimum
   // (scoring 7 or less out of 20 means very thin margins)
   if (downPaymentPoints <= 7 && !isVeteranEligible) {
-    const downPaymentPercent = (saved / targetPrice) * 100;
+    // Funds left for the down payment once closing costs are paid
+    const available = getCashToClose(values, targetPrice, plan, config).availableForDownPayment;
+    const downPaymentPercent = (available / targetPrice) * 100;
     const solutions: Solution[] = [];
 
     // Option 1: Lower price to get comfortable down payment
-    const comfortablePrice = saved / 0.05; // 5% down for comfort
+    const comfortablePrice = available / 0.05; // 5% down for comfort
     if (comfortablePrice >= 200000 && comfortablePrice < targetPrice * 0.9) {
       solutions.push({
         type: 'ADJUST_PRICE',
+        code: 'PRICE_FOR_5_PERCENT_DOWN',
+        params: { newPrice: Math.round(comfortablePrice / 5000) * 5000 },
         description: `At ${formatCurrency(comfortablePrice)}, your savings cover a healthy 5% down`,
         impact: `More equity from day one, lower monthly payment`,
         actionLabel: 'See homes in range',
         newPrice: Math.round(comfortablePrice / 5000) * 5000,
-        monthlyPayment: Math.round(estimateMonthlyPayment(comfortablePrice)),
+        monthlyPayment: Math.round(estimateMonthlyPayment(comfortablePrice, 0.05, config, plan.profile)),
       });
     }
 
     // Option 2: Save more
     const targetSaved = targetPrice * 0.05; // 5% target
-    const additionalNeeded = targetSaved - saved;
+    const additionalNeeded = targetSaved - available;
     if (additionalNeeded > 0) {
-      const monthsToSave = Math.ceil(additionalNeeded / 500);
+      const { monthlySavings } = getSavingsCapacity(values);
+      const monthsToSave = monthlySavings > 0 ? Math.ceil(additionalNeeded / monthlySavings) : null;
       solutions.push({
         type: 'SAVE_MORE',
+        code: 'SAVE_FOR_5_PERCENT_DOWN',
+        params: { amount: Math.round(additionalNeeded), monthlySavings, months: monthsToSave },
         description: `Save ${formatCurrency(additionalNeeded)} more to reach 5% down`,
         impact: `Better equity position and possible PMI savings`,
-        timeline: `${monthsToSave} months at $500/mo`,
+        timeline: monthsToSave !== null ? `${monthsToSave} months at ${formatCurrency(monthlySavings)}/mo` : undefined,
         actionLabel: 'Create savings plan',
       });
     }
 
+    // USDA: 0% down for homes in eligible rural areas
+    if (dpaEligibility.usda.eligible) {
+      solutions.push(usdaZeroDownSolution(targetPrice, config));
+    }
+
     // Option 3: DPA programs (only if eligible)
-    if (dpaEligibility.firstHome.eligible) {
-      solutions.push({
-        type: 'DPA_PROGRAMS',
-        description: `Utah FirstHome could provide ${dpaEligibility.firstHome.benefit}`,
-        impact: `First-time buyer program — covers most or all of your down payment`,
-        actionLabel: 'Learn about FirstHome',
-      });
-    } else if (dpaEligibility.homeAgain.eligible) {
+    if (bestAssistance) {
       solutions.push({
         type: 'DPA_PROGRAMS',
-        description: `Utah HomeAgain could provide ${dpaEligibility.homeAgain.benefit}`,
-        impact: `Down payment assistance up to 6% — no first-time buyer requirement`,
-        actionLabel: 'Learn about HomeAgain',
+        code: 'ASSISTANCE_AVAILABLE',
+        params: { programId: bestAssistance.id, amount: Math.round(bestAssistance.amount) },
+        description: `${bestAssistance.name} could provide ${bestAssistance.benefit}`,
+        impact: bestAssistance.firstTimeBuyerRequired
+          ? `First-time buyer program — covers most or all of your down payment`
+          : assistanceImpact(bestAssistance),
+        actionLabel: `Learn about ${bestAssistance.name}`,
       });
-    } else {
+    } else if (hasAssistance) {
       // Explain why down payment assistance isn't available
       const reasons: string[] = [];
-      if (annualIncome > PROGRAM_LIMITS.homeAgain.incomeLimit) {
-        reasons.push(`income under $141k`);
+      if (annualIncome > assistanceIncomeLimit) {
+        reasons.push(`income under ${formatCurrency(assistanceIncomeLimit)}`);
       }
-      if (creditScore && creditScore < 660) {
-        reasons.push(`660+ credit`);
+      if (creditScore && creditScore < assistanceMinCredit) {
+        reasons.push(`${assistanceMinCredit}+ credit`);
       }
       if (reasons.length > 0) {
         solutions.push({
           type: 'DPA_PROGRAMS',
-          description: `Utah down payment assistance programs require ${reasons.join(' and ')}`,
+          code: 'ASSISTANCE_REQUIREMENTS_NOT_MET',
+          params: assistanceParams,
+          description: `${assistanceLabel[0].toUpperCase()}${assistanceLabel.slice(1)} programs require ${reasons.join(' and ')}`,
           impact: dpaEligibility.fha.eligible
             ? `FHA is available with ${dpaEligibility.fha.benefit}`
             : `Work on qualifying factors to unlock assistance`,
@@ -849,8 +1832,15 @@ function detectPrimaryBlocker(
 
     return {
       type: 'DOWN_PAYMENT',
+      code: 'DP_BELOW_5_PERCENT',
+      params: {
+        saved,
+        availableForDownPayment: Math.round(available),
+        downPaymentPercent: Number(downPaymentPercent.toFixed(1)),
+        target: Math.round(targetPrice * 0.05),
+      },
       severity: downPaymentPoints <= 3 ? 'significant' : 'minor',
-      headline: `You've saved ${formatCurrency(saved)} (${downPaymentPercent.toFixed(1)}% of your target)`,
+      headline: `You've saved ${formatCurrency(saved)} (${downPaymentPercent.toFixed(1)}% down after closing costs)`,
       subheadline: downPaymentPercent < 3.5
         ? `You'll need at least 3.5% down (${formatCurrency(targetPrice * 0.035)}) for FHA. Here's how to get there:`
         : `That's enough for minimum down payment, but here's how to strengthen your position:`,
@@ -867,6 +1857,8 @@ function detectPrimaryBlocker(
     if (dpaEligibility.fha.eligible && creditScore >= 580) {
       solutions.push({
         type: 'DPA_PROGRAMS',
+        code: 'FHA_AVAILABLE_NOW',
+        params: { creditScore },
         description: `With a ${creditScore} score, you qualify for FHA loans today`,
         impact: dpaEligibility.fha.benefit,
         actionLabel: 'Explore FHA options',
@@ -874,71 +1866,156 @@ function detectPrimaryBlocker(
     }
 
     // Show what they could unlock with better credit
-    const potentialDpaValue = targetPrice * 0.06;
+    const potentialDpaValue = potentialAssistance;
     solutions.push({
       type: 'IMPROVE_CREDIT',
-      description: `Getting to 660+ unlocks Utah Housing assistance programs`,
-      impact: annualIncome <= PROGRAM_LIMITS.homeAgain.incomeLimit
+      code: 'IMPROVE_CREDIT_TO_ASSISTANCE_MIN',
+      params: { targetScore: assistanceMinCredit, potentialAssistance: annualIncome <= assistanceIncomeLimit ? Math.round(potentialDpaValue) : null },
+      description: hasAssistance
+        ? `Getting to ${assistanceMinCredit}+ unlocks ${assistanceLabel} programs`
+        : `Getting to ${assistanceMinCredit}+ unlocks better rates and more loan options`,
+      impact: annualIncome <= assistanceIncomeLimit
         ? `Could mean ${formatCurrency(potentialDpaValue)} in down payment help`
         : `Better rates and more loan options`,
       timeline: '3-6 months with focused effort',
       actionLabel: 'See credit tips',
     });
+    if (rateTier) solutions.push(rateTierSolution(rateTier, '3-6 months with focused effort'));
 
     return {
       type: 'CREDIT',
+      code: creditScore < 580 ? 'CREDIT_BELOW_FHA_MIN' : 'CREDIT_BELOW_CONVENTIONAL_MIN',
+      params: { creditScore },
       severity: creditScore < 580 ? 'critical' : 'significant',
       headline: `Your credit score around ${creditScore} ${creditScore >= 580 ? 'qualifies you for FHA today' : 'needs some work'}`,
       subheadline: creditScore >= 580
-        ? annualIncome <= PROGRAM_LIMITS.homeAgain.incomeLimit
-          ? `Getting to 660 unlocks Utah Housing assistance worth up to ${formatCurrency(potentialDpaValue)}.`
-          : `Getting to 660 unlocks better rates and more options.`
+        ? annualIncome <= assistanceIncomeLimit
+          ? `Getting to ${assistanceMinCredit} unlocks ${assistanceLabel} worth up to ${formatCurrency(potentialDpaValue)}.`
+          : `Getting to ${assistanceMinCredit} unlocks better rates and more options.`
         : `Most lenders need 580+ for FHA, 620+ for conventional loans.`,
       currentValue: `${creditScore}`,
-      targetValue: '660+',
+      targetValue: `${assistanceMinCredit}+`,
+      solutions,
+    };
+  }
+
+  // Check employment history
+  if (employmentPoints < 10) {
+    const years = values.employmentYears ?? null;
+    const selfEmployed = values.employmentType === "self-employed";
+    const gapMonths = values.employmentGapMonths ?? 0;
+    const returningFromGap = gapMonths >= 6 && (years === null || years < 0.5);
+    const solutions: Solution[] = [];
+
+    if (returningFromGap) {
+      const monthsToGo = years === null ? 6 : Math.max(1, Math.ceil((0.5 - years) * 12));
+      solutions.push({
+        type: 'BUILD_HISTORY',
+        code: 'BUILD_6_MONTHS_AFTER_GAP',
+        params: { monthsToGo },
+        description: `Reach 6 months at your current job (${monthsToGo} more months)`,
+        impact: `Lenders can then look past your ${gapMonths}-month gap`,
+        timeline: `${monthsToGo} months`,
+        actionLabel: 'See what lenders look for',
+      });
+    } else if (years !== null && years < 2) {
+      const monthsToGo = Math.max(1, Math.ceil((2 - years) * 12));
+      solutions.push({
+        type: 'BUILD_HISTORY',
+        code: 'BUILD_2_YEAR_HISTORY',
+        params: { monthsToGo },
+        description: `Build ${monthsToGo} more months of ${selfEmployed ? 'self-employment' : 'employment'} history`,
+        impact: selfEmployed
+          ? `Two years of tax returns lets lenders count your business income`
+          : `A 2-year history is what most lenders look for`,
+        timeline: `${monthsToGo} months`,
+        actionLabel: 'See what lenders look for',
+      });
+    }
+
+    if (selfEmployed && years !== null && years >= 1 && years < 2) {
+      solutions.push({
+        type: 'BUILD_HISTORY',
+        code: 'SELF_EMPLOYED_1_YEAR_EXCEPTION',
+        params: {},
+        description: `Some lenders accept 1 year of self-employment with prior work in the same field`,
+        impact: `May let you buy sooner - worth a conversation`,
+        actionLabel: 'Talk to a loan officer',
+      });
+    }
+
+    return {
+      type: 'EMPLOYMENT',
+      code: returningFromGap
+        ? 'EMPLOYMENT_RECENT_GAP'
+        : selfEmployed ? 'SELF_EMPLOYMENT_UNDER_2_YEARS' : 'EMPLOYMENT_UNDER_2_YEARS',
+      params: { employmentYears: years, gapMonths: values.employmentGapMonths ?? null },
+      severity: employmentPoints <= 4 ? 'critical' : 'significant',
+      headline: returningFromGap
+        ? `You recently returned to work after a ${gapMonths}-month gap`
+        : selfEmployed
+          ? `You've been self-employed for about ${years !== null ? formatTenure(years) : 'a short time'}`
+          : `You have ${years !== null ? `about ${formatTenure(years)} of` : 'limited'} work history`,
+      subheadline: returningFromGap
+        ? `Lenders typically want 6 months at your current job after an extended gap.`
+        : selfEmployed
+          ? `Most lenders need 2 years of self-employment income on your tax returns before they'll count it.`
+          : `Lenders look for a steady 2-year work history. Here's the path:`,
+      currentValue: years !== null ? formatTenure(years) : 'Unknown',
+      targetValue: returningFromGap ? '6+ months on the job' : '2+ years',
       solutions,
     };
   }
 
-  // Check credit (moderate - 620-659)
-  if (creditScore !== null && creditScore >= 620 && creditScore < 660) {
+  // Check credit (moderate - 620 up to the assistance minimum)
+  if (creditScore !== null && creditScore >= 620 && creditScore < assistanceMinCredit) {
     const solutions: Solution[] = [];
 
     solutions.push({
       type: 'DPA_PROGRAMS',
+      code: 'CONVENTIONAL_AVAILABLE_NOW',
+      params: { creditScore },
       description: `You qualify for conventional loans at current rates`,
       impact: `Good options available today`,
       actionLabel: 'See your options',
     });
 
     // Only mention assistance if they'd qualify based on income
-    if (annualIncome <= PROGRAM_LIMITS.homeAgain.incomeLimit) {
+    if (annualIncome <= assistanceIncomeLimit) {
       solutions.push({
         type: 'IMPROVE_CREDIT',
-        description: `Bumping to 660+ unlocks Utah Housing down payment assistance`,
-        impact: `Up to 6% down payment assistance (${formatCurrency(targetPrice * 0.06)})`,
+        code: 'IMPROVE_CREDIT_TO_ASSISTANCE_MIN',
+        params: { targetScore: assistanceMinCredit, potentialAssistance: Math.round(potentialAssistance) },
+        description: `Bumping to ${assistanceMinCredit}+ unlocks ${assistanceLabel}`,
+        impact: `Up to ${formatCurrency(potentialAssistance)} in down payment assistance`,
         timeline: '2-4 months',
         actionLabel: 'Quick credit wins',
       });
-    } else {
+    } else if (!rateTier) {
       solutions.push({
         type: 'IMPROVE_CREDIT',
-        description: `Bumping to 660+ unlocks better rates`,
+        code: 'IMPROVE_CREDIT_TO_ASSISTANCE_MIN',
+        params: { targetScore: assistanceMinCredit, potentialAssistance: null },
+        description: `Bumping to ${assistanceMinCredit}+ unlocks better rates`,
         impact: `Lower monthly payments and more loan options`,
         timeline: '2-4 months',
         actionLabel: 'Quick credit wins',
       });
     }
+    // Put a number on the better rate
+    if (rateTier) solutions.push(rateTierSolution(rateTier, '2-4 months'));
 
     return {
       type: 'CREDIT',
+      code: 'CREDIT_BELOW_ASSISTANCE_MIN',
+      params: { creditScore, targetScore: assistanceMinCredit },
       severity: 'minor',
       headline: `Your credit score around ${creditScore} qualifies you for conventional loans`,
-      subheadline: annualIncome <= PROGRAM_LIMITS.homeAgain.incomeLimit
-        ? `A small boost to 660+ unlocks Utah's best assistance programs:`
-        : `A small boost to 660+ unlocks better rates:`,
+      subheadline: annualIncome <= assistanceIncomeLimit
+        ? `A small boost to ${assistanceMinCredit}+ unlocks ${assistanceLabel} programs:`
+        : `A small boost to ${assistanceMinCredit}+ unlocks better rates:`,
       currentValue: `${creditScore}`,
-      targetValue: '660+',
+      targetValue: `${assistanceMinCredit}+`,
       solutions,
     };
   }
@@ -953,13 +2030,22 @@ function calculateSweetSpot(
   monthlyDebts: number,
   saved: number,
   targetPrice: number,
-  input: ScoreInput
+  values: ScoreValuesInput,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
 ): SweetSpot {
-  // Calculate comfortable price (36% DTI)
-  const comfortablePrice = calculateMaxPriceForDti(monthlyIncome, monthlyDebts, 36);
-
-  // Calculate stretch price (43% DTI)
-  const stretchPrice = calculateMaxPriceForDti(monthlyIncome, monthlyDebts, 43);
+  // Calculate comfortable price (28% housing ratio, 36% DTI)
+  const comfortable = calculateMaxPrice(monthlyIncome, monthlyDebts, 36, HOUSING_RATIO_GUIDELINE, plan.downPaymentPercent, config, plan.profile);
+  const comfortablePrice = comfortable.maxPrice;
+
+  // Calculate stretch price (43% DTI, within the program's housing-ratio cap)
+  const housingLimit = getHousingRatioLimit(
+    plan.profile,
+    getBorrowersScore(values, config.creditScorePolicy)?.score ?? null,
+    getWaitingPeriodStatus(values.derogatoryEvents ?? [], getAsOfDate(values))
+  );
+  const stretch = calculateMaxPrice(monthlyIncome, monthlyDebts, 43, housingLimit, plan.downPaymentPercent, config, plan.profile);
+  const stretchPrice = stretch.maxPrice;
 
   // Determine recommended price based on their situation
   let recommendedPrice: number;
@@ -976,35 +2062,37 @@ function calculateSweetSpot(
   } else {
     // Their target exceeds guidelines - recommend stretch price
     recommendedPrice = stretchPrice;
-    whyThisWorks = `This is the maximum lenders will typically approve. It keeps you within guidelines.`;
+    whyThisWorks = stretch.limitedBy === "housing-ratio"
+      ? `This is the maximum lenders will typically approve. ${plan.profile.program.toUpperCase()} caps your housing payment at ${housingLimit}% of income.`
+      : `This is the maximum lenders will typically approve. It keeps you within guidelines.`;
   }
 
   // Round to nearest $5k
   recommendedPrice = Math.round(recommendedPrice / 5000) * 5000;
 
-  // Calculate score at recommended price
-  const priceRange = getPriceRangeFromAmount(recommendedPrice);
-  const scoreAtRecommended = calculateScoreInternal({
-    ...input,
-    priceRange,
-  });
+  // Calculate score and projected timeline at recommended price
+  const valuesAtRecommended = { ...values, targetHomePrice: recommendedPrice };
+  const scoreAtRecommended = calculateScoreInternal(valuesAtRecommended, plan, config);
+  const readinessAtRecommended = simulateReadiness(valuesAtRecommended, plan, config);
 
   // Calculate payment and DTI at recommended price
-  const payment = estimateMonthlyPayment(recommendedPrice);
+  const payment = planPayment(recommendedPrice, plan, config);
   const dtiAtPrice = calculateCurrentDti(monthlyIncome, monthlyDebts, payment);
+  const housingRatioAtPrice = calculateHousingRatio(monthlyIncome, payment);
 
   // Calculate target price metrics for comparison
-  const targetPayment = estimateMonthlyPayment(targetPrice);
-  const targetScore = calculateScoreInternal(input);
+  const targetPayment = planPayment(targetPrice, plan, config);
+  const targetScore = calculateScoreInternal(values, plan, config);
 
   return {
     recommendedPrice,
     scoreAtPrice: scoreAtRecommended.total,
     statusAtPrice: scoreAtRecommended.status,
-    timelineAtPrice: scoreAtRecommended.timeline,
+    timelineAtPrice: formatTimeline(readinessAtRecommended.statusDates.READY_NOW),
     monthlyPayment: Math.round(payment),
-    downPaymentNeeded: Math.round(recommendedPrice * 0.035),
+    downPaymentNeeded: Math.round(recommendedPrice * plan.downPaymentPercent),
     dtiAtPrice,
+    housingRatioAtPrice,
     whyThisWorks,
     comparedToTarget: {
       priceDifference: targetPrice - recommendedPrice,
@@ -1016,12 +2104,15 @@ function calculateSweetSpot(
 
 // Calculate path to reach their goal price if different from sweet spot
 function calculatePathToGoal(
+  values: ScoreValuesInput,
   monthlyIncome: number,
   monthlyDebts: number,
-  saved: number,
   targetPrice: number,
   sweetSpot: SweetSpot,
-  currentScore: number
+  currentScore: number,
+  readiness: ReadinessProjection,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
 ): PathToGoal | null {
   // If target matches sweet spot, no path needed
   if (Math.abs(targetPrice - sweetSpot.recommendedPrice) < 10000) {
@@ -1034,11 +2125,12 @@ function calculatePathToGoal(
   }
 
   const requiredChanges: RequiredChange[] = [];
-  const housingPayment = estimateMonthlyPayment(targetPrice);
+  const housingPayment = planPayment(targetPrice, plan, config);
   const currentDti = calculateCurrentDti(monthlyIncome, monthlyDebts, housingPayment);
 
-  // Calculate what's needed to make target work
-  if (currentDti > 43) {
+  // Calculate what's needed to make target work - without qualifying income
+  // there's no DTI to bring down, so the debt and income targets don't apply
+  if (currentDti !== null && currentDti > 43) {
     // Option A: Debt reduction
     const debtReduction = calculateDebtReductionForDti(monthlyIncome, monthlyDebts, housingPayment, 43);
     if (debtReduction > 0 && debtReduction <= monthlyDebts) {
@@ -1062,14 +2154,14 @@ function calculatePathToGoal(
     }
   }
 
-  // Check down payment gap
-  const downPaymentNeeded = targetPrice * 0.035;
-  if (saved < downPaymentNeeded) {
+  // Check cash to close gap (down payment plus closing costs)
+  const { shortfall } = getCashToClose(values, targetPrice, plan, config);
+  if (shortfall > 0) {
     requiredChanges.push({
       type: 'savings_increase',
-      amount: downPaymentNeeded - saved,
-      description: `Save ${formatCurrency(downPaymentNeeded - saved)} more for down payment`,
-      impact: 'Meets 3.5% down requirement',
+      amount: shortfall,
+      description: `Save ${formatCurrency(shortfall)} more for down payment and closing costs`,
+      impact: `Covers cash to close at ${+(plan.downPaymentPercent * 100).toFixed(1)}% down`,
     });
   }
 
@@ -1077,23 +2169,9 @@ function calculatePathToGoal(
     return null;
   }
 
-  // Estimate timeline based on required changes
-  let estimatedMonths = 0;
-  requiredChanges.forEach(change => {
-    if (change.type === 'debt_reduction') {
-      estimatedMonths = Math.max(estimatedMonths, Math.ceil(change.amount * 12 / 1000)); // Rough estimate
-    } else if (change.type === 'savings_increase') {
-      estimatedMonths = Math.max(estimatedMonths, Math.ceil(change.amount / 500));
-    } else if (change.type === 'income_increase') {
-      estimatedMonths = Math.max(estimatedMonths, 6); // Income changes take time
-    }
-  });
-
-  let estimatedTimeline: string;
-  if (estimatedMonths <= 3) estimatedTimeline = '1-3 months';
-  else if (estimatedMonths <= 6) estimatedTimeline = '3-6 months';
-  else if (estimatedMonths <= 12) estimatedTimeline = '6-12 months';
-  else estimatedTimeline = '12+ months';
+  // First projected month where the target fits guidelines and cash to close is covered
+  const goalMonth = readiness.months.find((m) => m.dti !== null && m.dti <= 43 && m.cashShortfall === 0);
+  const estimatedTimeline = formatTimeline(goalMonth ?? null);
 
   return {
     targetPrice,
@@ -1105,7 +2183,7 @@ function calculatePathToGoal(
 }
 
 // Helper to format currency
-function formatCurrency(amount: number): string {
+export function formatCurrency(amount: number): string {
   if (amount >= 1000000) {
     return `$${(amount / 1000000).toFixed(1)}M`;
   }
@@ -1115,33 +2193,323 @@ function formatCurrency(amount: number): string {
   return `$${Math.round(amount)}`;
 }
 
+// "A", "A and B", "A, B and C"
+function formatList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join('');
+}
+
+// Helper to explain a waiting period that hasn't ended yet
+function describeWaitingPeriod(status: ProgramWaitingPeriod): string {
+  const eventLabel = status.blockingEvent ? DEROGATORY_EVENT_LABELS[status.blockingEvent] : 'credit event';
+  return status.eligibleDate
+    ? `Eligible ${formatDisplayDate(status.eligibleDate)} after ${eventLabel} waiting period`
+    : `Waiting period after ${eventLabel}`;
+}
+
+// Helper to describe employment tenure
+function formatTenure(years: number): string {
+  if (years < 1) {
+    const months = Math.round(years * 12);
+    return `${months} month${months === 1 ? '' : 's'}`;
+  }
+  const rounded = Math.round(years * 10) / 10;
+  return `${rounded} year${rounded === 1 ? '' : 's'}`;
+}
+
+// Date to evaluate waiting periods and event recency against. Missing or
+// unreadable dates (validation reports those) fall back to today.
+function getAsOfDate(values: ScoreValuesInput): Date {
+  return parseStrictIsoDate(values.asOfDate) ?? new Date();
+}
+
 // Internal score calculation without path forward (to avoid recursion)
-function calculateScoreInternal(input: ScoreInput): { total: number; status: ScoreStatus; timeline: string } {
-  const creditScore = getCreditScore(input.creditScoreRange);
-  const income = getIncomeAmount(input.annualIncome);
-  const targetPrice = getPriceAmount(input.priceRange);
-  const saved = getDownPaymentAmount(input.downPayment);
-  const monthlyDebts = getMonthlyDebtAmount(input.monthlyDebts);
-  const monthlyIncome = income / 12;
+function calculateScoreInternal(
+  values: ScoreValuesInput,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): { total: number; status: ScoreStatus } {
+  const creditScore = values.creditScore;
+  const targetPrice = values.targetHomePrice;
+  const monthlyDebts = values.monthlyDebts;
+  const monthlyIncome = values.annualIncome / 12;
 
   const creditPoints = calculateCreditPoints(creditScore);
-  const dtiPoints = calculateDtiPoints(monthlyIncome, targetPrice, monthlyDebts);
-  const downPaymentPoints = calculateDownPaymentPoints(saved, targetPrice, input.veteranStatus);
-  const employmentPoints = calculateEmploymentPoints();
-  const reservesPoints = calculateReservesPoints(saved, targetPrice);
-  const bonusPoints = calculateBonusPoints(input.firstTimeBuyer, input.veteranStatus);
+  const dtiPoints = calculateDtiPoints(monthlyIncome, targetPrice, monthlyDebts, plan, config);
+  const cash = getCashToClose(values, targetPrice, plan, config);
+  const downPaymentPoints = calculateDownPaymentPoints(cash.availableForDownPayment, targetPrice, getVaTerms(values, targetPrice));
+  const employmentPoints = calculateEmploymentPoints(
+    values.employmentYears ?? null,
+    values.employmentType ?? null,
+    values.employmentGapMonths ?? null
+  );
+  const reservesPoints = calculateReservesPoints(cash, targetPrice, plan, config);
+  const bonusPoints = calculateBonusPoints(values.firstTimeBuyer, values.veteranStatus);
+  const penaltyPoints = calculatePenaltyPoints(values.derogatoryEvents ?? [], getAsOfDate(values));
 
   const total = Math.max(0, Math.min(100,
-    creditPoints + dtiPoints + downPaymentPoints + employmentPoints + reservesPoints + bonusPoints
+    creditPoints + dtiPoints + downPaymentPoints + employmentPoints + reservesPoints + bonusPoints - penaltyPoints
   ));
 
   return {
     total,
     status: getStatus(total),
-    timeline: getTimeline(total),
   };
 }
 
+// ============================================================================
+// READINESS PROJECTION
+// ============================================================================
+
+const READINESS_HORIZON_MONTHS = 60;
+const DEFAULT_MONTHLY_SAVINGS = 500;
+
+// Minimum payments run about 3% of the balance, so each dollar paid off
+// lowers monthly debts by ~3 cents
+const MIN_PAYMENT_RATE = 0.03;
+
+// Statuses from most to least ready
+const STATUS_ORDER: ScoreStatus[] = [
+  "READY_NOW",
+  "ALMOST_READY",
+  "GETTING_CLOSE",
+  "BUILDING",
+  "EARLY_STAGE",
+  "JUST_EXPLORING",
+];
+
+// Client's monthly savings capacity, with defaults
+function getSavingsCapacity(values: ScoreValuesInput): {
+  monthlySavings: number;
+  monthlyDebtPaydown: number;
+  expectedAnnualRaise: number;
+} {
+  return {
+    monthlySavings: Math.max(0, values.monthlySavings ?? DEFAULT_MONTHLY_SAVINGS),
+    monthlyDebtPaydown: Math.max(0, values.monthlyDebtPaydown ?? 0),
+    expectedAnnualRaise: values.expectedAnnualRaise ?? 0,
+  };
+}
+
+// Step the client's finances forward month by month and re-score each month.
+// Month 0 is today, scored on the plan passed in; later months re-pick the
+// best program as waiting periods end and numbers change.
+function simulateReadiness(
+  values: ScoreValuesInput,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): ReadinessProjection {
+  const { monthlySavings, monthlyDebtPaydown, expectedAnnualRaise } = getSavingsCapacity(values);
+  const startDate = getAsOfDate(values);
+  const targetPrice = values.targetHomePrice;
+  const derogatoryEvents = values.derogatoryEvents ?? [];
+
+  const months: ReadinessMonth[] = [];
+  const statusDates = Object.fromEntries(
+    STATUS_ORDER.map((status) => [status, null])
+  ) as Record<ScoreStatus, ProjectedMilestone | null>;
+
+  let annualIncome = values.annualIncome;
+  let monthlyDebts = values.monthlyDebts;
+  let saved = values.savedForDownPayment;
+
+  for (let month = 0; month <= READINESS_HORIZON_MONTHS; month++) {
+    if (month > 0) {
+      // Pay down debt first; once it's gone the paydown budget goes to savings
+      const paydownNeeded = monthlyDebts / MIN_PAYMENT_RATE;
+      const paydown = Math.min(monthlyDebtPaydown, paydownNeeded);
+      monthlyDebts = Math.max(0, monthlyDebts - paydown * MIN_PAYMENT_RATE);
+      saved += monthlySavings + (monthlyDebtPaydown - paydown);
+
+      if (month % 12 === 0) annualIncome *= 1 + expectedAnnualRaise;
+    }
+
+    const date = addMonths(startDate, month);
+    const monthValues: ScoreValuesInput = {
+      ...values,
+      annualIncome,
+      monthlyDebts,
+      savedForDownPayment: saved,
+      employmentYears: values.employmentYears != null ? values.employmentYears + month / 12 : null,
+      asOfDate: toIsoDate(date),
+    };
+    const monthPlan = month === 0
+      ? plan
+      : chooseFinancingPlan(monthValues, getWaitingPeriodStatus(derogatoryEvents, date), config);
+    const score = calculateScoreInternal(
+      { ...monthValues, creditScore: getPlanScore(monthValues, monthPlan, config)?.score ?? null },
+      monthPlan,
+      config
+    );
+    const milestone = { month, date: toIsoDate(date) };
+
+    // A month counts toward every status at or below the one reached
+    for (const status of STATUS_ORDER.slice(STATUS_ORDER.indexOf(score.status))) {
+      if (!statusDates[status]) statusDates[status] = milestone;
+    }
+
+    months.push({
+      ...milestone,
+      total: score.total,
+      status: score.status,
+      annualIncome: Math.round(annualIncome),
+      monthlyDebts: Math.round(monthlyDebts),
+      saved: Math.round(saved),
+      dti: calculateCurrentDti(annualIncome / 12, monthlyDebts, planPayment(targetPrice, monthPlan, config)),
+      downPaymentNeeded: Math.round(targetPrice * monthPlan.downPaymentPercent),
+      cashShortfall: getCashToClose(monthValues, targetPrice, monthPlan, config).shortfall,
+    });
+  }
+
+  return { months, statusDates };
+}
+
+/**
+ * Project a client's readiness month by month from their savings capacity,
+ * debt paydown budget and expected raises. Returns each month's projected
+ * score and the date they first reach each status.
+ */
+export function projectReadiness(
+  input: ScoreValuesInput,
+  config: ScoringConfig = {}
+): ReadinessProjection {
+  const resolved = resolveConfig(config, input.location);
+  const { values: combined, plan } = combineForPlan(input, resolved);
+  return simulateReadiness(applyItemizedFinances(combined, plan).values, plan, resolved);
+}
+
+// ============================================================================
+// DEBT PAYOFF PLANNER
+// ============================================================================
+
+const PAYOFF_TARGET_DTIS = [43, 36];
+
+const PAYOFF_STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+  avalanche: 'highest-rate-first',
+  snowball: 'smallest-balance-first',
+  'payment-freed': 'biggest-payment-freed-first',
+};
+
+// Run one payoff strategy and score the client at each milestone
+function runPayoffStrategy(
+  values: ScoreValuesInput,
+  debts: NonNullable<ScoreValuesInput['debts']>,
+  otherDebts: number,
+  monthlyBudget: number,
+  strategy: PayoffStrategy,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): PayoffStrategyResult {
+  const monthlyIncome = values.annualIncome / 12;
+  const housingPayment = planPayment(values.targetHomePrice, plan, config);
+  const startDate = getAsOfDate(values);
+  const { order, steps } = simulatePayoff(debts, monthlyBudget, strategy, plan.profile.program, monthlyIncome);
+
+  const months = steps.map((step) => ({
+    month: step.month,
+    date: toIsoDate(addMonths(startDate, step.month)),
+    totalBalance: step.totalBalance,
+    qualifyingDebts: step.qualifyingDebts,
+    dti: calculateCurrentDti(monthlyIncome, step.qualifyingDebts + otherDebts, housingPayment),
+    paidOff: step.paidOff,
+  }));
+
+  const milestoneFor = (
+    month: typeof months[number],
+    event: PayoffMilestone['event'],
+    account: string | null
+  ): PayoffMilestone => {
+    const { total, status } = calculateScoreInternal(
+      { ...values, monthlyDebts: month.qualifyingDebts + otherDebts },
+      plan,
+      config
+    );
+    return { month: month.month, date: month.date, event, account, dti: month.dti, score: total, status };
+  };
+
+  const monthsTo43 = months.find((m) => m.dti !== null && m.dti <= 43)?.month ?? null;
+  const monthsTo36 = months.find((m) => m.dti !== null && m.dti <= 36)?.month ?? null;
+  const milestones: PayoffMilestone[] = [];
+  for (const month of months) {
+    for (const account of month.paidOff) milestones.push(milestoneFor(month, 'PAID_OFF', account));
+    if (month.month > 0 && month.month === monthsTo43) milestones.push(milestoneFor(month, 'DTI_43', null));
+    if (month.month > 0 && month.month === monthsTo36) milestones.push(milestoneFor(month, 'DTI_36', null));
+  }
+
+  const last = months[months.length - 1];
+  return {
+    strategy,
+    order,
+    monthsTo43,
+    monthsTo36,
+    debtFreeMonth: last.totalBalance === 0 ? last.month : null,
+    totalInterest: steps.reduce((sum, step) => sum + step.interest, 0),
+    months,
+    milestones,
+  };
+}
+
+// Compare payoff strategies and lump sums for itemized debts (null without
+// them). Expects values with itemized finances already applied.
+function buildPayoffPlan(
+  values: ScoreValuesInput,
+  monthlyBudget: number,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): DebtPayoffPlan | null {
+  const debts = values.debts;
+  if (!debts || debts.length === 0) return null;
+
+  const program = plan.profile.program;
+  const monthlyIncome = values.annualIncome / 12;
+  const housingPayment = planPayment(values.targetHomePrice, plan, config);
+  const qualifyingTotal = values.monthlyDebts;
+  // Co-borrower debts and rental losses aren't part of the payoff
+  const otherDebts = qualifyingTotal - calculateQualifyingDebts(debts, program, monthlyIncome).total;
+
+  const strategies = PAYOFF_STRATEGIES.map((strategy) =>
+    runPayoffStrategy(values, debts, otherDebts, monthlyBudget, strategy, plan, config)
+  );
+  // Soonest to 43%, then to 36%, then least interest (earlier strategies win ties)
+  const horizon = (months: number | null) => months ?? Number.MAX_SAFE_INTEGER;
+  const recommended = [...strategies].sort((a, b) =>
+    horizon(a.monthsTo43) - horizon(b.monthsTo43) ||
+    horizon(a.monthsTo36) - horizon(b.monthsTo36) ||
+    a.totalInterest - b.totalInterest
+  )[0];
+
+  const lumpSums: LumpSumPayoff[] = PAYOFF_TARGET_DTIS.map((targetDti) => {
+    const reduction = calculateDebtReductionForDti(monthlyIncome, qualifyingTotal, housingPayment, targetDti);
+    const payoff = selectLumpSumPayoff(debts, program, monthlyIncome, reduction);
+    const dti = calculateCurrentDti(monthlyIncome, payoff.qualifyingDebts + otherDebts, housingPayment);
+    return { targetDti, reachable: dti !== null && dti <= targetDti, accounts: payoff.accounts, lumpSum: payoff.lumpSum, dti };
+  });
+
+  return {
+    monthlyBudget,
+    currentDti: calculateCurrentDti(monthlyIncome, qualifyingTotal, housingPayment),
+    recommended: recommended.strategy,
+    strategies,
+    lumpSums,
+  };
+}
+
+/**
+ * Plan paying down a client's itemized debts with a monthly budget on top of
+ * minimum payments. Compares avalanche, snowball and payment-freed-per-dollar
+ * strategies, with the projected DTI and score as each account is paid off,
+ * and picks the accounts to pay off today to reach 43% and 36% DTI.
+ * Returns null when the input has no itemized debts.
+ */
+export function planDebtPayoff(
+  input: ScoreValuesInput,
+  monthlyBudget: number,
+  config: ScoringConfig = {}
+): DebtPayoffPlan | null {
+  const resolved = resolveConfig(config, input.location);
+  const { values: combined, plan } = combineForPlan(input, resolved);
+  return buildPayoffPlan(applyItemizedFinances(combined, plan).values, Math.max(0, monthlyBudget), plan, resolved);
+}
+
 // ============================================================================
 // AFFORDABILITY CALCULATIONS
 // ============================================================================
@@ -1151,12 +2519,53 @@ export function calculateMaxPriceForDti(
   monthlyIncome: number,
   monthlyDebts: number,
   targetDti: number,
-  downPaymentPercent: number = 0.035
+  downPaymentPercent: number = 0.035,
+  config: ScoringConfig = {},
+  profile?: PaymentProfile
 ): number {
   // Max total obligations = income * targetDti
   const maxTotalObligations = monthlyIncome * (targetDti / 100);
   const maxHousingPayment = maxTotalObligations - monthlyDebts;
 
+  return calculateMaxPriceForPayment(maxHousingPayment, downPaymentPercent, config, profile);
+}
+
+/**
+ * Max affordable price within a target DTI and, when given, a cap on the
+ * housing ratio - whichever binds first. The result says which one did.
+ */
+export function calculateMaxPrice(
+  monthlyIncome: number,
+  monthlyDebts: number,
+  targetDti: number,
+  housingRatio: number | null,
+  downPaymentPercent: number = 0.035,
+  config: ScoringConfig = {},
+  profile?: PaymentProfile
+): PriceLimit {
+  const dtiPayment = monthlyIncome * (targetDti / 100) - monthlyDebts;
+  const housingPayment = housingRatio !== null ? monthlyIncome * (housingRatio / 100) : Infinity;
+  const limitedBy = housingPayment < dtiPayment ? "housing-ratio" : "dti";
+
+  return {
+    maxPrice: calculateMaxPriceForPayment(Math.min(dtiPayment, housingPayment), downPaymentPercent, config, profile),
+    dti: targetDti,
+    housingRatio,
+    limitedBy,
+    explanation: limitedBy === "housing-ratio"
+      ? `Limited by the housing payment, which can't exceed ${housingRatio}% of income`
+      : `Limited by total debt: housing plus other debts within ${targetDti}% of income`,
+  };
+}
+
+// Price whose full payment (PITI plus any mortgage insurance) comes to a
+// monthly housing budget
+function calculateMaxPriceForPayment(
+  maxHousingPayment: number,
+  downPaymentPercent: number,
+  config: ScoringConfig,
+  profile?: PaymentProfile
+): number {
   if (maxHousingPayment <= 0) return 0;
 
   // Reverse engineer price from PITI payment
@@ -1164,7 +2573,7 @@ export function calculateMaxPriceForDti(
   // We need to solve for price iteratively since PMI depends on loan amount
   let price = 300000; // Starting guess
   for (let i = 0; i < 20; i++) {
-    const payment = estimateMonthlyPayment(price, downPaymentPercent);
+    const payment = estimateMonthlyPayment(price, downPaymentPercent, config, profile);
     const ratio = maxHousingPayment / payment;
     price = price * ratio;
     // Clamp to reasonable bounds
@@ -1174,211 +2583,535 @@ export function calculateMaxPriceForDti(
   return Math.round(price / 5000) * 5000; // Round to nearest $5k
 }
 
+// Income sources, when given, replace the income range with qualifying income
+// under the plan's program (FHA rules without a plan)
 export function calculateAffordability(
   annualIncome: string | null,
   monthlyDebtsRange: string | null,
-  targetPriceRange: string | null
+  targetPriceRange: string | null,
+  config: ScoringConfig = {},
+  plan?: FinancingPlan,
+  incomeSources?: IncomeSource[] | null
 ): AffordabilityResult {
-  const income = getIncomeAmount(annualIncome);
-  const monthlyIncome = income / 12;
-  const monthlyDebts = getMonthlyDebtAmount(monthlyDebtsRange);
+  const resolvedConfig = resolveConfig(config, plan?.profile.location);
+  const downPaymentPercent = plan?.downPaymentPercent ?? 0.035;
+  const profile = plan?.profile;
+  const qualifyingIncome = incomeSources && incomeSources.length > 0
+    ? calculateQualifyingIncome(incomeSources, profile?.program ?? 'fha')
+    : null;
+  const monthlyIncome = qualifyingIncome ? qualifyingIncome.monthlyIncome : getIncomeAmount(annualIncome) / 12;
+  const monthlyDebts = getMonthlyDebtAmount(monthlyDebtsRange) + (qualifyingIncome?.rentalLoss ?? 0);
   const targetPrice = getPriceAmount(targetPriceRange);
 
-  // Calculate comfortable (36% DTI) and stretch (43% DTI) budgets
-  const comfortablePrice = calculateMaxPriceForDti(monthlyIncome, monthlyDebts, 36);
-  const stretchPrice = calculateMaxPriceForDti(monthlyIncome, monthlyDebts, 43);
+  // Calculate comfortable (28/36) and stretch (43% DTI, within any program
+  // housing-ratio cap - judged on the plan's score, with no event history)
+  // budgets
+  const housingLimit = profile ? getHousingRatioLimit(profile, profile.creditScore ?? null, null) : null;
+  const comfortable = calculateMaxPrice(monthlyIncome, monthlyDebts, 36, HOUSING_RATIO_GUIDELINE, downPaymentPercent, resolvedConfig, profile);
+  const stretch = calculateMaxPrice(monthlyIncome, monthlyDebts, 43, housingLimit, downPaymentPercent, resolvedConfig, profile);
+  const comfortablePrice = comfortable.maxPrice;
+  const stretchPrice = stretch.maxPrice;
 
   // Calculate payments at each level
-  const comfortablePayment = estimateMonthlyPayment(comfortablePrice);
-  const stretchPayment = estimateMonthlyPayment(stretchPrice);
-  const targetPayment = estimateMonthlyPayment(targetPrice);
+  const comfortablePayment = estimateMonthlyPayment(comfortablePrice, downPaymentPercent, resolvedConfig, profile);
+  const stretchPayment = estimateMonthlyPayment(stretchPrice, downPaymentPercent, resolvedConfig, profile);
+  const target = calculatePaymentBreakdown(targetPrice, downPaymentPercent, resolvedConfig, profile);
+  const targetPayment = target.total;
 
   return {
     comfortable: {
       maxPrice: comfortablePrice,
       maxPayment: Math.round(comfortablePayment),
       dti: 36,
+      housingRatio: comfortable.housingRatio,
+      limitedBy: comfortable.limitedBy,
+      explanation: comfortable.explanation,
     },
     stretch: {
       maxPrice: stretchPrice,
       maxPayment: Math.round(stretchPayment),
       dti: 43,
+      housingRatio: stretch.housingRatio,
+      limitedBy: stretch.limitedBy,
+      explanation: stretch.explanation,
     },
     atTargetPrice: {
       payment: Math.round(targetPayment),
-      dti: Math.round(((targetPayment + monthlyDebts) / monthlyIncome) * 100),
+      dti: calculateCurrentDti(monthlyIncome, monthlyDebts, targetPayment),
+      housingRatio: calculateHousingRatio(monthlyIncome, targetPayment),
     },
     monthlyIncome: Math.round(monthlyIncome),
     monthlyDebts,
-    currentRate: CURRENT_RATE * 100,
+    currentRate: Math.round(target.rate * 100000) / 1000,
+    program: profile?.program ?? null,
   };
 }
 
-// Calculate score at a specific price point (for slider)
+// Calculate score at a specific price point (for slider). In strict mode,
+// invalid input (other than the price range the slider replaces) or a price
+// that isn't above zero throws.
 export function calculateScoreAtPrice(
   input: ScoreInput,
-  overridePrice: number
+  overridePrice: number,
+  config: ScoringConfig = {},
+  options: ScoreOptions = {}
 ): ScoreResult {
-  // Create modified input with the override price
-  const priceRange = getPriceRangeFromAmount(overridePrice);
-  return calculateScore({
+  // Score the exact slider price rather than the midpoint of its range
+  const validation = validateScoreInput(input);
+  const priceValidation = validatePrice(overridePrice, 'overridePrice');
+  const errors = [...validation.errors.filter((e) => e.field !== 'priceRange'), ...priceValidation.errors];
+  if (options.strict && errors.length > 0) throw new ScoreInputError(errors);
+
+  const defaultedFields = [
+    ...validation.defaultedFields.filter((f) => f !== 'priceRange'),
+    ...priceValidation.defaultedFields,
+  ];
+  return scoreValues({
+    ...parseRangeInput(input),
+    targetHomePrice: overridePrice,
+  }, resolveConfig(config, input.location), defaultedFields, options.trace);
+}
+
+// ============================================================================
+// INPUT ADAPTERS
+// ============================================================================
+
+// Convert intake-form range strings into exact values for the scoring core
+function parseRangeInput(input: ScoreInput): ScoreValuesInput {
+  return {
+    creditScore: getCreditScore(input.creditScoreRange),
+    annualIncome: getIncomeAmount(input.annualIncome),
+    monthlyDebts: getMonthlyDebtAmount(input.monthlyDebts),
+    targetHomePrice: getPriceAmount(input.priceRange),
+    savedForDownPayment: getDownPaymentAmount(input.downPayment),
+    firstTimeBuyer: input.firstTimeBuyer === true,
+    veteranStatus: input.veteranStatus,
+    employmentYears: getEmploymentYears(input.employmentYears),
+    employmentType: input.employmentType ?? null,
+    employmentGapMonths: input.employmentGapMonths ?? null,
+    utahResident: input.utahResident ?? null,
+    ruralInterest: input.ruralInterest ?? null,
+    householdSize: input.householdSize ?? null,
+    propertyState: input.propertyState ?? null,
+    location: input.location ?? null,
+    vaRegion: input.vaRegion ?? null,
+    debts: input.debts ?? null,
+    incomeSources: input.incomeSources ?? null,
+    derogatoryEvents: input.derogatoryEvents ?? null,
+    asOfDate: input.asOfDate ?? null,
+    vaSubsequentUse: input.vaSubsequentUse ?? null,
+    vaFundingFeeExempt: input.vaFundingFeeExempt ?? null,
+    vaDisabilityRating: input.vaDisabilityRating ?? null,
+    vaRemainingEntitlement: input.vaRemainingEntitlement ?? null,
+    giftFunds: input.giftFunds ?? null,
+    sellerConcessions: input.sellerConcessions ?? null,
+    downPaymentAssistance: input.downPaymentAssistance ?? null,
+    monthlySavings: input.monthlySavings ?? null,
+    monthlyDebtPaydown: input.monthlyDebtPaydown ?? null,
+    expectedAnnualRaise: input.expectedAnnualRaise ?? null,
+  };
+}
+
+// Representative score across both borrowers' bureau scores (or single scores)
+function getBorrowersScore(input: ScoreValuesInput, policy: CreditScorePolicy): RepresentativeCreditScore | null {
+  return getRepresentativeScore(
+    { scores: input.creditScores, score: input.creditScore },
+    { scores: input.coBorrowerCreditScores, score: input.coBorrowerCreditScore },
+    policy
+  );
+}
+
+// Representative score for the plan's program - only conventional loans use
+// the configured policy; FHA, VA and USDA price on the lowest middle score
+function getPlanScore(
+  values: ScoreValuesInput,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): RepresentativeCreditScore | null {
+  const policy = plan.profile.program === "conventional" ? config.creditScorePolicy : "lowest-middle";
+  return getBorrowersScore(values, policy);
+}
+
+// Fold co-borrower values into a single borrower profile:
+// - Uses the representative credit score under the lender's policy
+// - Combines annual income
+// - Combines monthly debts
+// Each borrower's own scores are kept so the plan can re-combine them.
+function combineBorrowers(input: ScoreValuesInput, policy: CreditScorePolicy): ScoreValuesInput {
+  let effectiveAnnualIncome = input.annualIncome;
+  let effectiveMonthlyDebts = input.monthlyDebts;
+
+  if (input.coBorrowerAnnualIncome !== undefined && input.coBorrowerAnnualIncome > 0) {
+    effectiveAnnualIncome += input.coBorrowerAnnualIncome;
+  }
+
+  if (input.coBorrowerMonthlyDebts !== undefined && input.coBorrowerMonthlyDebts > 0) {
+    effectiveMonthlyDebts += input.coBorrowerMonthlyDebts;
+  }
+
+  return {
     ...input,
-    priceRange,
-  });
+    creditScore: getBorrowersScore(input, policy)?.score ?? null,
+    creditScores: input.creditScores && input.creditScores.length > 0
+      ? input.creditScores
+      : input.creditScore !== null && input.creditScore !== undefined ? [input.creditScore] : null,
+    annualIncome: effectiveAnnualIncome,
+    monthlyDebts: effectiveMonthlyDebts,
+  };
 }
 
-// Helper to convert price amount back to range string
-function getPriceRangeFromAmount(price: number): string {
-  if (price < 400000) return "under-400k";
-  if (price < 500000) return "400k-500k";
-  if (price < 600000) return "500k-600k";
-  if (price < 700000) return "600k-700k";
-  if (price < 800000) return "700k-800k";
-  if (price < 900000) return "800k-900k";
-  if (price < 1000000) return "900k-1m";
-  return "1m-plus";
+// Amounts that aren't finite numbers, and prices that aren't above zero
+// (validation reports both), are scored on the intake form's default
+// assumptions, or dropped when they're optional
+function withFiniteValues(input: ScoreValuesInput): ScoreValuesInput {
+  const finiteOr = (value: number, fallback: number) => (Number.isFinite(value) ? value : fallback);
+  const optional = (value: number | null | undefined) =>
+    value !== null && value !== undefined && !Number.isFinite(value) ? null : value;
+  const finiteScores = (scores: number[] | null | undefined) => scores && scores.filter((s) => Number.isFinite(s));
+
+  return {
+    ...input,
+    creditScore: optional(input.creditScore) ?? null,
+    creditScores: finiteScores(input.creditScores),
+    annualIncome: finiteOr(input.annualIncome, getIncomeAmount(null)),
+    monthlyDebts: finiteOr(input.monthlyDebts, getMonthlyDebtAmount(null)),
+    targetHomePrice: Number.isFinite(input.targetHomePrice) && input.targetHomePrice > 0
+      ? input.targetHomePrice
+      : getPriceAmount(null),
+    savedForDownPayment: finiteOr(input.savedForDownPayment, getDownPaymentAmount(null)),
+    employmentYears: optional(input.employmentYears),
+    employmentGapMonths: optional(input.employmentGapMonths),
+    coBorrowerCreditScore: optional(input.coBorrowerCreditScore),
+    coBorrowerCreditScores: finiteScores(input.coBorrowerCreditScores),
+    coBorrowerAnnualIncome: optional(input.coBorrowerAnnualIncome) ?? undefined,
+    coBorrowerMonthlyDebts: optional(input.coBorrowerMonthlyDebts) ?? undefined,
+    householdSize: optional(input.householdSize),
+    vaDisabilityRating: optional(input.vaDisabilityRating),
+    vaRemainingEntitlement: optional(input.vaRemainingEntitlement),
+    giftFunds: optional(input.giftFunds),
+    sellerConcessions: optional(input.sellerConcessions),
+    downPaymentAssistance: optional(input.downPaymentAssistance),
+    monthlySavings: optional(input.monthlySavings),
+    monthlyDebtPaydown: optional(input.monthlyDebtPaydown),
+    expectedAnnualRaise: optional(input.expectedAnnualRaise),
+  };
 }
 
-// ============================================================================
-// REVERSE RANGE MAPPING HELPERS (for calculateScoreFromValues)
-// ============================================================================
+// Combine the borrowers and pick the financing plan, then settle the credit
+// score under the chosen program's policy
+function combineForPlan(
+  rawInput: ScoreValuesInput,
+  config: Required<ScoringConfig>
+): { values: ScoreValuesInput; plan: FinancingPlan; representativeScore: RepresentativeCreditScore | null } {
+  const input = withFiniteValues(rawInput);
+  const waiting = getWaitingPeriodStatus(input.derogatoryEvents ?? [], getAsOfDate(input));
+  const plan = chooseFinancingPlan(combineBorrowers(input, "lowest-middle"), waiting, config);
+  const representativeScore = getPlanScore(input, plan, config);
+  return {
+    values: combineBorrowers(input, representativeScore?.policy ?? "lowest-middle"),
+    plan,
+    representativeScore,
+  };
+}
 
-// Convert exact credit score to range string
-function getCreditScoreRange(score: number | null): string | null {
-  if (score === null) return null;
-  if (score >= 740) return "740-plus";
-  if (score >= 700) return "700-739";
-  if (score >= 660) return "660-699";
-  if (score >= 620) return "620-659";
-  if (score >= 580) return "580-619";
-  return "below-580";
-}
-
-// Convert exact annual income to range string
-function getIncomeRange(income: number): string {
-  if (income >= 220000) return "220k-plus";
-  if (income >= 180000) return "180k-220k";
-  if (income >= 150000) return "150k-180k";
-  if (income >= 100000) return "100k-150k";
-  if (income >= 80000) return "80k-100k";
-  if (income >= 60000) return "60k-80k";
-  if (income >= 40000) return "40k-60k";
-  return "under-40k";
-}
-
-// Convert exact price to range string
-function getPriceRange(price: number): string {
-  return getPriceRangeFromAmount(price);
-}
-
-// Convert exact down payment amount to range string
-function getDownPaymentRange(amount: number): string {
-  if (amount >= 260000) return "260k-plus";
-  if (amount >= 220000) return "220k-260k";
-  if (amount >= 180000) return "180k-220k";
-  if (amount >= 140000) return "140k-180k";
-  if (amount >= 100000) return "100k-140k";
-  if (amount >= 75000) return "75k-100k";
-  if (amount >= 50000) return "50k-75k";
-  if (amount >= 25000) return "25k-50k";
-  if (amount >= 10000) return "10k-25k";
-  return "under-10k";
-}
-
-// Convert exact monthly debt amount to range string
-function getMonthlyDebtRange(debt: number): string {
-  if (debt >= 3000) return "3000-plus";
-  if (debt >= 2500) return "2500-3000";
-  if (debt >= 2000) return "2000-2500";
-  if (debt >= 1000) return "1000-2000";
-  if (debt >= 500) return "500-1000";
-  if (debt >= 250) return "250-500";
-  if (debt > 0) return "under-250";
-  return "none";
+// Income sources and itemized debts replace the annual income and monthly
+// debt totals, counted the way the plan's program underwrites them (a
+// co-borrower's income and debts still add on top). Income goes first since
+// some debt exclusions depend on it; net rental losses count as debt.
+function applyItemizedFinances(
+  values: ScoreValuesInput,
+  plan: FinancingPlan
+): { values: ScoreValuesInput; qualifyingIncome: QualifyingIncome | null; qualifyingDebts: QualifyingDebts | null } {
+  const program = plan.profile.program;
+  const qualifyingIncome = values.incomeSources && values.incomeSources.length > 0
+    ? calculateQualifyingIncome(values.incomeSources, program)
+    : null;
+  const annualIncome = qualifyingIncome
+    ? qualifyingIncome.monthlyIncome * 12 + Math.max(0, values.coBorrowerAnnualIncome ?? 0)
+    : values.annualIncome;
+
+  const qualifyingDebts = values.debts && values.debts.length > 0
+    ? calculateQualifyingDebts(values.debts, program, annualIncome / 12)
+    : null;
+  const monthlyDebts = (qualifyingDebts
+    ? qualifyingDebts.total + Math.max(0, values.coBorrowerMonthlyDebts ?? 0)
+    : values.monthlyDebts) + (qualifyingIncome?.rentalLoss ?? 0);
+
+  return {
+    values: qualifyingIncome || qualifyingDebts ? { ...values, annualIncome, monthlyDebts } : values,
+    qualifyingIncome,
+    qualifyingDebts,
+  };
 }
 
 // ============================================================================
-// calculateScoreFromValues - NEW wrapper for exact numeric inputs
+// PUBLIC SCORING ENTRY POINTS
 // ============================================================================
 
 /**
  * Calculate score from exact numeric values (for TheHomeStretch What-If panel).
- * Takes exact numbers instead of range strings, converts them internally
- * using the reverse range mapping helpers, and calls calculateScore().
+ * Values are scored directly by the numeric core - no range bucketing - so
+ * $179k of income is scored as $179k, not as the midpoint of a range.
+ *
+ * Up to three bureau scores per borrower can be given in creditScores and
+ * coBorrowerCreditScores; the score used is chosen by the config's
+ * creditScorePolicy on conventional loans (FHA, VA and USDA always use the
+ * lowest middle score) and explained in the result's representativeScore.
  *
  * When a co-borrower is provided:
- * - Uses the lower credit score of the two (as lenders do)
+ * - Uses the lower of the two representative scores (by default)
  * - Combines annual income
  * - Combines monthly debts
+ *
+ * In strict mode, NaN or negative amounts and unknown veteran statuses throw
+ * a ScoreInputError instead of being scored.
  */
-export function calculateScoreFromValues(input: ScoreValuesInput): ScoreResult {
-  // Handle co-borrower: use lower credit score, combine income and debts
-  let effectiveCreditScore = input.creditScore;
-  let effectiveAnnualIncome = input.annualIncome;
-  let effectiveMonthlyDebts = input.monthlyDebts;
+export function calculateScoreFromValues(
+  input: ScoreValuesInput,
+  config: ScoringConfig = {},
+  options: ScoreOptions = {}
+): ScoreResult {
+  const validation = validateScoreValues(input);
+  if (options.strict && !validation.valid) throw new ScoreInputError(validation.errors);
 
-  if (input.coBorrowerAnnualIncome !== undefined && input.coBorrowerAnnualIncome > 0) {
-    effectiveAnnualIncome += input.coBorrowerAnnualIncome;
-  }
+  return scoreValues(input, resolveConfig(config, input.location), validation.defaultedFields, options.trace);
+}
 
-  if (input.coBorrowerMonthlyDebts !== undefined && input.coBorrowerMonthlyDebts > 0) {
-    effectiveMonthlyDebts += input.coBorrowerMonthlyDebts;
-  }
+/**
+ * Calculate score from intake-form range strings. Each range is mapped to a
+ * representative value and then scored by the same numeric core as
+ * calculateScoreFromValues.
+ *
+ * Unknown range strings normally fall back to a default assumption (listed in
+ * the result's defaultedFields). In strict mode they throw a ScoreInputError
+ * instead.
+ */
+export function calculateScore(
+  input: ScoreInput,
+  config: ScoringConfig = {},
+  options: ScoreOptions = {}
+): ScoreResult {
+  const validation = validateScoreInput(input);
+  if (options.strict && !validation.valid) throw new ScoreInputError(validation.errors);
 
-  if (input.coBorrowerCreditScore !== undefined && input.coBorrowerCreditScore !== null) {
-    if (effectiveCreditScore === null) {
-      effectiveCreditScore = input.coBorrowerCreditScore;
-    } else {
-      // Lenders use the lower of the two credit scores
-      effectiveCreditScore = Math.min(effectiveCreditScore, input.coBorrowerCreditScore);
-    }
+  return scoreValues(parseRangeInput(input), resolveConfig(config, input.location), validation.defaultedFields, options.trace);
+}
+
+// ============================================================================
+// SCORE TRACE
+// ============================================================================
+
+const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  w2: "W-2",
+  "self-employed": "Self-employed",
+  retired: "Retired",
+  "job-change-same-field": "New job, same field",
+};
+
+// Band label for calculateEmploymentPoints
+function describeEmploymentBand(
+  years: number | null,
+  employmentType: EmploymentType | null,
+  gapMonths: number | null
+): string {
+  if (years === null && employmentType === null && gapMonths === null) {
+    return "No employment data - assumed stable";
   }
 
-  // Convert exact values to range strings using reverse mapping helpers
-  const scoreInput: ScoreInput = {
-    creditScoreRange: getCreditScoreRange(effectiveCreditScore),
-    annualIncome: getIncomeRange(effectiveAnnualIncome),
-    downPayment: getDownPaymentRange(input.savedForDownPayment),
-    priceRange: getPriceRange(input.targetHomePrice),
-    monthlyDebts: getMonthlyDebtRange(effectiveMonthlyDebts),
-    firstTimeBuyer: input.firstTimeBuyer,
-    veteranStatus: input.veteranStatus,
-  };
+  let tenure: string;
+  if (employmentType === "retired") tenure = "tenure not required";
+  else if (years === null) tenure = "tenure unknown";
+  else if (years >= 5 && employmentType !== "job-change-same-field") tenure = "5+ years";
+  else if (years >= 2) tenure = employmentType === "job-change-same-field" ? "2+ years" : "2-5 years";
+  else if (years >= 1) tenure = "1-2 years";
+  else tenure = "under 1 year";
+
+  const gap = gapMonths !== null && gapMonths >= 6 ? ", 6+ month gap" : "";
+  return `${EMPLOYMENT_TYPE_LABELS[employmentType ?? "w2"]}, ${tenure}${gap}`;
+}
 
-  return calculateScore(scoreInput);
+// Explain how each factor in the breakdown was scored
+function buildScoreTrace(
+  values: ScoreValuesInput,
+  breakdown: ScoreBreakdown,
+  asOf: Date,
+  plan: FinancingPlan,
+  config: Required<ScoringConfig>
+): ScoreTrace {
+  const { creditScore, targetHomePrice: targetPrice, savedForDownPayment: saved, monthlyDebts } = values;
+  const monthlyIncome = values.annualIncome / 12;
+  const payment = calculatePaymentBreakdown(targetPrice, plan.downPaymentPercent, config, plan.profile);
+  const monthlyPayment = payment.total;
+  const dti = monthlyIncome > 0 ? ((monthlyPayment + monthlyDebts) / monthlyIncome) * 100 : Infinity;
+  const housingRatio = monthlyIncome > 0 ? (monthlyPayment / monthlyIncome) * 100 : Infinity;
+  const dtiBand = bandBelow(DTI_BANDS, dti);
+  const housingBand = bandBelow(HOUSING_RATIO_BANDS, housingRatio);
+  const cash = getCashToClose(values, targetPrice, plan, config);
+  const downPaymentPercent = (cash.availableForDownPayment / targetPrice) * 100;
+  const reservesMonths = calculateReservesMonths(cash, targetPrice, plan, config);
+  const isVeteran = isVaEligible(values.veteranStatus);
+  const vaTerms = getVaTerms(values, targetPrice);
+  const employmentYears = values.employmentYears ?? null;
+  const events = getKnownEvents(values.derogatoryEvents ?? []);
+
+  const bonuses: string[] = [];
+  if (isVeteran) bonuses.push("Veteran +10");
+  if (values.firstTimeBuyer === true) bonuses.push("First-time buyer +5");
+
+  const factors: FactorTrace[] = [
+    {
+      factor: "credit",
+      inputs: { creditScore },
+      metric: creditScore ? `Credit score ${creditScore}` : null,
+      band: creditScore ? bandAtLeast(CREDIT_BANDS, creditScore).label : "Unknown - middle estimate",
+      points: breakdown.credit,
+      maxPoints: 30,
+    },
+    {
+      factor: "dti",
+      inputs: {
+        monthlyIncome: Math.round(monthlyIncome),
+        monthlyDebts,
+        monthlyPayment: Math.round(monthlyPayment),
+        targetPrice,
+      },
+      metric: monthlyIncome > 0 ? `DTI ${dti.toFixed(1)}%, housing ratio ${housingRatio.toFixed(1)}%` : "No qualifying income",
+      band: monthlyIncome <= 0
+        ? "No qualifying income"
+        : housingBand.points < dtiBand.points ? housingBand.label : dtiBand.label,
+      points: breakdown.dti,
+      maxPoints: 25,
+    },
+    {
+      factor: "downPayment",
+      inputs: {
+        saved,
+        giftFunds: cash.giftFunds,
+        downPaymentAssistance: cash.downPaymentAssistance,
+        sellerConcessions: cash.sellerConcessions,
+        closingCosts: cash.closingCosts.total,
+        targetPrice,
+        veteranStatus: values.veteranStatus,
+      },
+      metric: `${downPaymentPercent.toFixed(1)}% down after closing costs`,
+      band: vaTerms
+        ? vaTerms.downPaymentRequired > 0
+          ? `VA eligible - ${+(vaTerms.downPaymentPercent * 100).toFixed(1)}% down required`
+          : "VA eligible - 0% down available"
+        : bandAtLeast(DOWN_PAYMENT_BANDS, downPaymentPercent).label,
+      points: breakdown.downPayment,
+      maxPoints: 20,
+    },
+    {
+      factor: "employment",
+      inputs: {
+        employmentYears,
+        employmentType: values.employmentType ?? null,
+        employmentGapMonths: values.employmentGapMonths ?? null,
+      },
+      metric: employmentYears !== null ? formatTenure(employmentYears) : null,
+      band: describeEmploymentBand(employmentYears, values.employmentType ?? null, values.employmentGapMonths ?? null),
+      points: breakdown.employment,
+      maxPoints: 15,
+    },
+    {
+      factor: "reserves",
+      inputs: {
+        saved,
+        cashToClose: cash.cashToClose,
+        postClosingAssets: cash.postClosingAssets,
+        monthlyPayment: Math.round(monthlyPayment),
+      },
+      metric: `${reservesMonths.toFixed(1)} months`,
+      band: bandAtLeast(RESERVES_BANDS, reservesMonths).label,
+      points: breakdown.reserves,
+      maxPoints: 10,
+    },
+    {
+      factor: "bonus",
+      inputs: { firstTimeBuyer: values.firstTimeBuyer, veteranStatus: values.veteranStatus },
+      metric: null,
+      band: bonuses.length > 0 ? bonuses.join(", ") : "None",
+      points: breakdown.bonus,
+      maxPoints: 15,
+    },
+    {
+      factor: "penalty",
+      inputs: { derogatoryEvents: events.length, asOfDate: toIsoDate(asOf) },
+      metric: events.length > 0 ? `${events.length} derogatory event${events.length === 1 ? '' : 's'}` : null,
+      band: events.length > 0 ? events.map((e) => DEROGATORY_EVENT_LABELS[e.type]).join(", ") : "None",
+      points: breakdown.penalty,
+      maxPoints: MAX_PENALTY_POINTS,
+    },
+  ];
+
+  return {
+    factors,
+    assumptions: {
+      rate: config.rate,
+      noteRate: payment.rate,
+      termYears: config.termYears,
+      propertyTaxRate: config.propertyTaxRate,
+      monthlyInsurance: config.monthlyInsurance,
+      pmiRate: payment.baseLoanAmount > 0 ? (payment.mortgageInsurance * 12) / payment.baseLoanAmount : 0,
+      upfrontFee: Math.round(payment.upfrontFee),
+      program: plan.profile.program,
+      downPaymentPercent: plan.downPaymentPercent,
+      monthlyPayment: Math.round(monthlyPayment),
+      asOfDate: toIsoDate(asOf),
+    },
+  };
 }
 
 // ============================================================================
-// MAIN SCORING FUNCTION
+// SCORING CORE (exact values)
 // ============================================================================
 
-// Main scoring function
-export function calculateScore(input: ScoreInput): ScoreResult {
-  // Parse input values
-  const creditScore = getCreditScore(input.creditScoreRange);
-  const income = getIncomeAmount(input.annualIncome);
-  const targetPrice = getPriceAmount(input.priceRange);
-  const saved = getDownPaymentAmount(input.downPayment);
-  const monthlyDebts = getMonthlyDebtAmount(input.monthlyDebts);
+// Main scoring function - every public entry point lands here
+function scoreValues(
+  input: ScoreValuesInput,
+  config: Required<ScoringConfig>,
+  defaultedFields: string[],
+  includeTrace: boolean = false
+): ScoreResult {
+  // Model payments on the buyer's best available program
+  const { values: combined, plan, representativeScore } = combineForPlan(input, config);
+  const asOf = getAsOfDate(combined);
+  const derogatoryEvents = combined.derogatoryEvents ?? [];
+  const waiting = getWaitingPeriodStatus(derogatoryEvents, asOf);
+  const { values, qualifyingIncome, qualifyingDebts } = applyItemizedFinances(combined, plan);
+
+  // Unpack input values
+  const creditScore = values.creditScore;
+  const income = values.annualIncome;
+  const targetPrice = values.targetHomePrice;
+  const saved = values.savedForDownPayment;
+  const monthlyDebts = values.monthlyDebts;
   const monthlyIncome = income / 12;
 
   // Calculate component scores
   const creditPoints = calculateCreditPoints(creditScore);
-  const dtiPoints = calculateDtiPoints(monthlyIncome, targetPrice, monthlyDebts);
+  const dtiPoints = calculateDtiPoints(monthlyIncome, targetPrice, monthlyDebts, plan, config);
+  const vaTerms = getVaTerms(values, targetPrice);
+  const cashToClose = getCashToClose(values, targetPrice, plan, config);
   const downPaymentPoints = calculateDownPaymentPoints(
-    saved,
+    cashToClose.availableForDownPayment,
     targetPrice,
-    input.veteranStatus
+    vaTerms
   );
-  const employmentPoints = calculateEmploymentPoints();
-  const reservesPoints = calculateReservesPoints(saved, targetPrice);
+  const employmentPoints = calculateEmploymentPoints(
+    values.employmentYears ?? null,
+    values.employmentType ?? null,
+    values.employmentGapMonths ?? null
+  );
+  const reservesPoints = calculateReservesPoints(cashToClose, targetPrice, plan, config);
 
   // Calculate modifiers
   const bonusPoints = calculateBonusPoints(
-    input.firstTimeBuyer,
-    input.veteranStatus
+    values.firstTimeBuyer,
+    values.veteranStatus
   );
-  const penaltyPoints = 0; // No penalty data in simplified flow
+  const penaltyPoints = calculatePenaltyPoints(derogatoryEvents, asOf);
 
   // Calculate total
   const baseScore =
@@ -1391,36 +3124,55 @@ export function calculateScore(input: ScoreInput): ScoreResult {
 
   // Determine status
   const status = getStatus(total);
-  const timeline = getTimeline(total);
+  const readiness = simulateReadiness(values, plan, config);
+  const timeline = formatTimeline(readiness.statusDates.READY_NOW);
   const color = getColor(status);
 
   // Match programs
+  const area = getLocation(values, config);
+  const location = area ? summarizeLocation(area, targetPrice, plan, config) : null;
   const programDetails = matchPrograms(
     creditScore,
-    input.firstTimeBuyer,
-    input.veteranStatus,
-    income
+    values.firstTimeBuyer,
+    vaTerms,
+    income,
+    values.ruralInterest ?? null,
+    values.utahResident ?? null,
+    values.householdSize ?? null,
+    waiting,
+    getAssistancePrograms(values, config),
+    location
   );
   const programs = programDetails
     .filter((p) => p.eligible)
     .map((p) => p.name);
 
+  // Calculate current DTI and housing ratio for parsed values
+  const housingPayment = planPayment(targetPrice, plan, config);
+  const currentDti = calculateCurrentDti(monthlyIncome, monthlyDebts, housingPayment);
+  const housingRatio = calculateHousingRatio(monthlyIncome, housingPayment);
+
   // Identify gaps
   const gaps = identifyGaps(
     creditScore,
     creditPoints,
     downPaymentPoints,
     dtiPoints,
+    currentDti,
+    housingRatio,
     saved,
-    targetPrice
+    cashToClose.availableForDownPayment,
+    targetPrice,
+    employmentPoints,
+    values.employmentYears ?? null,
+    values.employmentType ?? null,
+    values.employmentGapMonths ?? null
   );
 
   // Generate recommendations
   const recommendations = generateRecommendations(gaps);
 
-  // Calculate current DTI for parsed values
-  const housingPayment = estimateMonthlyPayment(targetPrice);
-  const currentDti = calculateCurrentDti(monthlyIncome, monthlyDebts, housingPayment);
+  const vaResidualIncome = getResidualIncome(values, targetPrice, monthlyIncome, monthlyDebts, plan, config);
 
   // Calculate Path Forward data
   const primaryBlocker = detectPrimaryBlocker(
@@ -1432,9 +3184,15 @@ export function calculateScore(input: ScoreInput): ScoreResult {
     monthlyDebts,
     targetPrice,
     saved,
-    input.veteranStatus,
+    values.veteranStatus,
     income,
-    input.firstTimeBuyer
+    values.firstTimeBuyer,
+    employmentPoints,
+    values,
+    waiting,
+    asOf,
+    plan,
+    config
   );
 
   const sweetSpot = calculateSweetSpot(
@@ -1442,32 +3200,39 @@ export function calculateScore(input: ScoreInput): ScoreResult {
     monthlyDebts,
     saved,
     targetPrice,
-    input
+    values,
+    plan,
+    config
   );
 
   const pathToGoal = calculatePathToGoal(
+    values,
     monthlyIncome,
     monthlyDebts,
-    saved,
     targetPrice,
     sweetSpot,
-    total
+    total,
+    readiness,
+    plan,
+    config
   );
 
+  const breakdown: ScoreBreakdown = {
+    credit: creditPoints,
+    dti: dtiPoints,
+    downPayment: downPaymentPoints,
+    employment: employmentPoints,
+    reserves: reservesPoints,
+    bonus: bonusPoints,
+    penalty: penaltyPoints,
+  };
+
   return {
     total,
     status,
     timeline,
     color,
-    breakdown: {
-      credit: creditPoints,
-      dti: dtiPoints,
-      downPayment: downPaymentPoints,
-      employment: employmentPoints,
-      reserves: reservesPoints,
-      bonus: bonusPoints,
-      penalty: penaltyPoints,
-    },
+    breakdown,
     programs,
     programDetails,
     gaps,
@@ -1476,6 +3241,14 @@ export function calculateScore(input: ScoreInput): ScoreResult {
     primaryBlocker,
     sweetSpot,
     pathToGoal,
+    readiness,
+    location,
+    qualifyingDebts,
+    qualifyingIncome,
+    representativeScore,
+    vaResidualIncome,
+    cashToClose,
+    defaultedFields,
     parsedValues: {
       creditScore,
       monthlyIncome,
@@ -1484,6 +3257,9 @@ export function calculateScore(input: ScoreInput): ScoreResult {
       targetPrice,
       savedAmount: saved,
       currentDti,
+      housingRatio,
+      paymentProgram: plan.profile.program,
     },
+    ...(includeTrace ? { trace: buildScoreTrace(values, breakdown, asOf, plan, config) } : {}),
   };
 }
@@ -0,0 +1,109 @@
+import type {
+  CashToClose,
+  ClosingCostModel,
+  ClosingCosts,
+  PaymentBreakdown,
+  PaymentProgram,
+  ScoreValuesInput,
+} from './types';
+
+// ============================================================================
+// CASH TO CLOSE
+// ============================================================================
+
+// Typical closing costs, prepaids and escrow setup for a purchase
+export const DEFAULT_CLOSING_COSTS: ClosingCostModel = {
+  lenderFeeRate: 0.01,
+  titleInsuranceRate: 0.005,
+  thirdPartyFees: 2500,
+  prepaidInterestDays: 15,
+  prepaidInsuranceMonths: 12,
+  taxEscrowMonths: 3,
+  insuranceEscrowMonths: 2,
+};
+
+// Most the seller can contribute, as a share of price. Conventional caps
+// depend on LTV (highest band first).
+const SELLER_CONCESSION_CAPS: Record<Exclude<PaymentProgram, "conventional">, number> = {
+  fha: 0.06,
+  va: 0.04,
+  usda: 0.06,
+};
+const CONVENTIONAL_CONCESSION_CAPS = [
+  { minLtv: 0.9, cap: 0.03 },
+  { minLtv: 0.75, cap: 0.06 },
+  { minLtv: 0, cap: 0.09 },
+];
+
+// The seller concession cap for a program and LTV (the generic estimate
+// uses conventional's)
+export function getSellerConcessionCap(program: PaymentProgram | null, ltv: number): number {
+  if (program && program !== "conventional") return SELLER_CONCESSION_CAPS[program];
+  return (CONVENTIONAL_CONCESSION_CAPS.find((b) => ltv > b.minLtv) ?? CONVENTIONAL_CONCESSION_CAPS[2]).cap;
+}
+
+// Closing costs for a loan's payment breakdown
+export function estimateClosingCosts(
+  price: number,
+  breakdown: PaymentBreakdown,
+  model: ClosingCostModel
+): ClosingCosts {
+  const lenderFees = breakdown.baseLoanAmount * model.lenderFeeRate;
+  const titleInsurance = price * model.titleInsuranceRate;
+  const prepaidInterest = (breakdown.loanAmount * breakdown.rate / 365) * model.prepaidInterestDays;
+  const prepaidInsurance = breakdown.insurance * model.prepaidInsuranceMonths;
+  const escrowDeposit = breakdown.propertyTax * model.taxEscrowMonths + breakdown.insurance * model.insuranceEscrowMonths;
+
+  return {
+    lenderFees: Math.round(lenderFees),
+    titleInsurance: Math.round(titleInsurance),
+    thirdPartyFees: Math.round(model.thirdPartyFees),
+    prepaidInterest: Math.round(prepaidInterest),
+    prepaidInsurance: Math.round(prepaidInsurance),
+    escrowDeposit: Math.round(escrowDeposit),
+    total: Math.round(lenderFees + titleInsurance + model.thirdPartyFees + prepaidInterest + prepaidInsurance + escrowDeposit),
+  };
+}
+
+/**
+ * Cash to close for a loan's payment breakdown: the down payment plus
+ * closing costs, less seller concessions (capped by program and never more
+ * than the closing costs), gift funds and DPA proceeds. Whatever's left of
+ * savings, gifts and assistance afterwards is the buyer's post-closing
+ * reserves.
+ */
+export function calculateCashToClose(
+  price: number,
+  breakdown: PaymentBreakdown,
+  model: ClosingCostModel,
+  values: Pick<ScoreValuesInput, 'savedForDownPayment' | 'giftFunds' | 'sellerConcessions' | 'downPaymentAssistance'>
+): CashToClose {
+  const closingCosts = estimateClosingCosts(price, breakdown, model);
+  const downPayment = Math.round(price - breakdown.baseLoanAmount);
+  const ltv = price > 0 ? breakdown.baseLoanAmount / price : 0;
+  const sellerConcessionCap = Math.round(price * getSellerConcessionCap(breakdown.program, ltv));
+
+  const savings = Math.max(0, values.savedForDownPayment);
+  const giftFunds = Math.max(0, values.giftFunds ?? 0);
+  const sellerConcessions = Math.min(Math.max(0, values.sellerConcessions ?? 0), sellerConcessionCap, closingCosts.total);
+  const due = downPayment + closingCosts.total - sellerConcessions;
+  const downPaymentAssistance = Math.min(Math.max(0, values.downPaymentAssistance ?? 0), due);
+
+  const cashToClose = Math.max(0, due - downPaymentAssistance - giftFunds);
+  const remaining = savings + giftFunds + downPaymentAssistance - due;
+
+  return {
+    price,
+    downPayment,
+    closingCosts,
+    sellerConcessions,
+    sellerConcessionCap,
+    giftFunds,
+    downPaymentAssistance,
+    cashToClose,
+    savings,
+    shortfall: Math.max(0, -remaining),
+    availableForDownPayment: Math.max(0, remaining + downPayment),
+    postClosingAssets: Math.max(0, remaining),
+  };
+}
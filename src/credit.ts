@@ -0,0 +1,83 @@
+import type {
+  BorrowerCreditScore,
+  CreditScorePolicy,
+  RepresentativeCreditScore,
+} from './types';
+
+// ============================================================================
+// REPRESENTATIVE CREDIT SCORE
+// ============================================================================
+
+// A tri-merge report has at most one score per bureau
+export const MAX_BUREAU_SCORES = 3;
+
+const BORROWER_LABELS: Record<BorrowerCreditScore["borrower"], string> = {
+  borrower: "your",
+  "co-borrower": "your co-borrower's",
+};
+
+// Middle of three scores, lower of two, or the only one
+function borrowerScore(scores: number[]): number {
+  const sorted = [...scores].sort((a, b) => a - b);
+  return sorted.length === 3 ? sorted[1] : sorted[0];
+}
+
+// "Middle of your three bureau scores (680, 702, 715)"
+function describeBorrower(entry: BorrowerCreditScore): string {
+  const whose = BORROWER_LABELS[entry.borrower];
+  const list = [...entry.scores].sort((a, b) => a - b).join(", ");
+  switch (entry.scores.length) {
+    case 3:
+      return `Middle of ${whose} three bureau scores (${list})`;
+    case 2:
+      return `Lower of ${whose} two bureau scores (${list})`;
+    default:
+      return `${whose.charAt(0).toUpperCase()}${whose.slice(1)} only score on file (${list})`;
+  }
+}
+
+// A borrower's bureau scores, falling back to the single score field
+function collectScores(scores: number[] | null | undefined, single: number | null | undefined): number[] {
+  if (scores && scores.length > 0) return scores.slice(0, MAX_BUREAU_SCORES);
+  return single !== null && single !== undefined ? [single] : [];
+}
+
+/**
+ * The credit score a lender prices the loan on. Each borrower's score is the
+ * middle of three bureau scores (or the lower of two); across borrowers,
+ * "lowest-middle" takes the lowest of those and "average-median" their
+ * average. Returns null when nobody has a score.
+ */
+export function getRepresentativeScore(
+  borrower: { scores?: number[] | null; score?: number | null },
+  coBorrower: { scores?: number[] | null; score?: number | null },
+  policy: CreditScorePolicy
+): RepresentativeCreditScore | null {
+  const borrowers: BorrowerCreditScore[] = [
+    { borrower: "borrower" as const, scores: collectScores(borrower.scores, borrower.score) },
+    { borrower: "co-borrower" as const, scores: collectScores(coBorrower.scores, coBorrower.score) },
+  ]
+    .filter((entry) => entry.scores.length > 0)
+    .map((entry) => ({ ...entry, representative: borrowerScore(entry.scores) }));
+
+  if (borrowers.length === 0) return null;
+
+  const representatives = borrowers.map((b) => b.representative);
+  const score = policy === "average-median"
+    ? Math.round(representatives.reduce((sum, s) => sum + s, 0) / representatives.length)
+    : Math.min(...representatives);
+
+  let explanation = borrowers
+    .map((entry, i) => {
+      const part = describeBorrower(entry);
+      return i === 0 ? part : `${part.charAt(0).toLowerCase()}${part.slice(1)}`;
+    })
+    .join("; ");
+  if (borrowers.length > 1) {
+    explanation += policy === "average-median"
+      ? `. Loan uses the average of both, ${score}`
+      : `. Loan uses the lower of the two, ${score}`;
+  }
+
+  return { score, policy, borrowers, explanation };
+}
@@ -0,0 +1,131 @@
+import type {
+  DebtItem,
+  DebtType,
+  PaymentProgram,
+  QualifyingDebt,
+  QualifyingDebts,
+} from './types';
+
+// ============================================================================
+// QUALIFYING DEBTS
+// ============================================================================
+
+// Debt types the intake form sends
+export const DEBT_TYPES: DebtType[] = [
+  "credit-card",
+  "auto-loan",
+  "student-loan",
+  "personal-loan",
+  "child-support",
+  "alimony",
+  "other",
+];
+
+// Installment debts with fewer payments left than this can be left out of DTI
+const INSTALLMENT_EXCLUSION_PAYMENTS = 10;
+
+// FHA only excludes them while their combined payments stay within 5% of income
+const FHA_EXCLUSION_INCOME_SHARE = 0.05;
+
+// Revolving accounts with no reported payment count 5% of the balance
+const REVOLVING_BALANCE_RATE = 0.05;
+
+// Monthly share of the balance counted for student loans without a usable
+// payment (deferred, or $0 on the report). VA counts 5% a year, and uses it
+// as a floor under any reported payment.
+const STUDENT_LOAN_BALANCE_RATE: Record<PaymentProgram, number> = {
+  fha: 0.005,
+  usda: 0.005,
+  conventional: 0.01,
+  va: 0.05 / 12,
+};
+
+const INSTALLMENT_TYPES: DebtType[] = ["auto-loan", "student-loan", "personal-loan", "other"];
+
+// Count a student loan the program's way
+function countStudentLoan(debt: DebtItem, program: PaymentProgram): { counted: number; rule: string } {
+  const payment = debt.monthlyPayment ?? 0;
+  const balanceRate = STUDENT_LOAN_BALANCE_RATE[program];
+  const balancePayment = (debt.balance ?? 0) * balanceRate;
+  const percent = `${+(balanceRate * 100).toFixed(2)}%`;
+
+  if (program === "va") {
+    return payment >= balancePayment && !debt.deferred
+      ? { counted: payment, rule: "Reported payment" }
+      : { counted: balancePayment, rule: "VA counts 5% of the balance per year" };
+  }
+  if (program === "conventional" && debt.incomeDriven && !debt.deferred) {
+    return { counted: payment, rule: "Income-driven payment (a $0 payment counts as $0)" };
+  }
+  if (payment > 0 && !debt.deferred) {
+    return { counted: payment, rule: "Reported payment" };
+  }
+  return {
+    counted: balancePayment,
+    rule: debt.deferred
+      ? `Deferred - ${percent} of the balance`
+      : `No reported payment - ${percent} of the balance`,
+  };
+}
+
+// Count one debt, before any installment exclusions
+function countDebt(debt: DebtItem, program: PaymentProgram): { counted: number; rule: string } {
+  const payment = debt.monthlyPayment ?? 0;
+
+  switch (debt.type) {
+    case "credit-card":
+      return payment > 0 || !debt.balance
+        ? { counted: payment, rule: "Minimum payment" }
+        : { counted: debt.balance * REVOLVING_BALANCE_RATE, rule: "No reported payment - 5% of the balance" };
+    case "student-loan":
+      return countStudentLoan(debt, program);
+    case "child-support":
+    case "alimony":
+      return { counted: payment, rule: "Court-ordered payment" };
+    default:
+      return { counted: payment, rule: "Scheduled payment" };
+  }
+}
+
+// Whether an installment debt is close enough to paid off to leave out
+function nearPayoff(debt: DebtItem): boolean {
+  return INSTALLMENT_TYPES.includes(debt.type) &&
+    !debt.deferred &&
+    debt.paymentsRemaining !== null && debt.paymentsRemaining !== undefined &&
+    debt.paymentsRemaining < INSTALLMENT_EXCLUSION_PAYMENTS;
+}
+
+/**
+ * Monthly debt as a program's underwriting counts it. Installment loans with
+ * fewer than 10 payments left are excluded (for FHA, only while their
+ * combined payments stay within 5% of gross monthly income); deferred and $0
+ * student loans count a share of the balance that depends on the program.
+ */
+export function calculateQualifyingDebts(
+  debts: DebtItem[],
+  program: PaymentProgram,
+  monthlyIncome: number
+): QualifyingDebts {
+  const counts = debts.map((debt) => countDebt(debt, program));
+
+  // FHA's exclusion is all-or-nothing across the near-payoff debts
+  const nearPayoffTotal = debts.reduce((sum, debt, i) => sum + (nearPayoff(debt) ? counts[i].counted : 0), 0);
+  const canExclude = program !== "fha" || nearPayoffTotal <= monthlyIncome * FHA_EXCLUSION_INCOME_SHARE;
+
+  const items: QualifyingDebt[] = debts.map((debt, i) => {
+    const excluded = canExclude && nearPayoff(debt);
+    return {
+      type: debt.type,
+      name: debt.name ?? null,
+      monthlyPayment: debt.monthlyPayment ?? 0,
+      counted: excluded ? 0 : Math.round(counts[i].counted),
+      rule: excluded ? `Excluded - ${debt.paymentsRemaining} payments left` : counts[i].rule,
+    };
+  });
+
+  return {
+    program,
+    total: items.reduce((sum, item) => sum + item.counted, 0),
+    items,
+  };
+}
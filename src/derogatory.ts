@@ -0,0 +1,175 @@
+import type {
+  DerogatoryEvent,
+  DerogatoryEventType,
+  PaymentProgram,
+  ProgramWaitingPeriod,
+  WaitingPeriodStatus,
+} from './types';
+
+// ============================================================================
+// DEROGATORY CREDIT EVENTS
+// ============================================================================
+
+// Waiting periods in months from the event date, per loan program.
+// Collections and late payments have no fixed waiting period - they only
+// count against the score while they're recent.
+const WAITING_PERIOD_MONTHS: Record<DerogatoryEventType, Record<PaymentProgram, number>> = {
+  "bankruptcy-ch7": { fha: 24, va: 24, conventional: 48, usda: 36 },
+  "bankruptcy-ch13": { fha: 12, va: 12, conventional: 24, usda: 12 },
+  foreclosure: { fha: 36, va: 24, conventional: 84, usda: 36 },
+  "short-sale": { fha: 36, va: 24, conventional: 48, usda: 36 },
+  collection: { fha: 0, va: 0, conventional: 0, usda: 0 },
+  "late-30": { fha: 0, va: 0, conventional: 0, usda: 0 },
+  "late-60": { fha: 0, va: 0, conventional: 0, usda: 0 },
+  "late-90": { fha: 0, va: 0, conventional: 0, usda: 0 },
+};
+
+// Event types the intake form sends
+export const DEROGATORY_EVENT_TYPES = Object.keys(WAITING_PERIOD_MONTHS) as DerogatoryEventType[];
+
+// Events with a type we know - anything else is skipped when scoring
+export function getKnownEvents(events: DerogatoryEvent[]): DerogatoryEvent[] {
+  return events.filter((event) => DEROGATORY_EVENT_TYPES.includes(event.type));
+}
+
+// Display names for blocker copy
+export const DEROGATORY_EVENT_LABELS: Record<DerogatoryEventType, string> = {
+  "bankruptcy-ch7": "Chapter 7 bankruptcy",
+  "bankruptcy-ch13": "Chapter 13 bankruptcy",
+  foreclosure: "foreclosure",
+  "short-sale": "short sale",
+  collection: "collection account",
+  "late-30": "30-day late payment",
+  "late-60": "60-day late payment",
+  "late-90": "90-day late payment",
+};
+
+// Total penalty is capped so one bad year can't zero out the score
+export const MAX_PENALTY_POINTS = 30;
+
+const AVERAGE_MONTH_MS = 30.4375 * 24 * 60 * 60 * 1000;
+
+// Parse an ISO date (YYYY-MM-DD) as UTC midnight
+export function parseIsoDate(value: string): Date {
+  return new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+}
+
+// Parse a date that must be ISO (YYYY-MM-DD, optionally with a time), or
+// null when it isn't one
+export function parseStrictIsoDate(value: string | null | undefined): Date | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const date = parseIsoDate(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Format a Date as an ISO date (YYYY-MM-DD)
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Format an ISO date for client-facing copy ("Mar 14, 2027")
+export function formatDisplayDate(isoDate: string): string {
+  return parseIsoDate(isoDate).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export function addMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, date.getUTCDate()));
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return Math.max(0, (to.getTime() - from.getTime()) / AVERAGE_MONTH_MS);
+}
+
+// Penalty for a single event, fading as it ages
+function calculateEventPenalty(event: DerogatoryEvent, monthsAgo: number): number {
+  const waiting = WAITING_PERIOD_MONTHS[event.type];
+
+  switch (event.type) {
+    case "bankruptcy-ch7":
+    case "bankruptcy-ch13":
+    case "foreclosure":
+    case "short-sale": {
+      const base = event.type === "bankruptcy-ch7" || event.type === "foreclosure" ? 20
+        : event.type === "bankruptcy-ch13" ? 15
+          : 12;
+      // Full weight until FHA allows it, half until conventional allows it,
+      // then a small lingering hit until it ages off the report at 7 years
+      if (monthsAgo < waiting.fha) return base;
+      if (monthsAgo < waiting.conventional) return Math.round(base / 2);
+      if (monthsAgo < 84) return Math.round(base / 4);
+      return 0;
+    }
+    case "collection": {
+      if (event.paid) return monthsAgo < 24 ? 1 : 0;
+      // FHA counts 5% of unpaid collections over $2,000 toward DTI
+      const largeBalance = (event.amount ?? 0) >= 2000 ? 2 : 0;
+      return (monthsAgo < 24 ? 4 : 2) + largeBalance;
+    }
+    case "late-30":
+    case "late-60":
+    case "late-90": {
+      const base = event.type === "late-90" ? 8 : event.type === "late-60" ? 5 : 3;
+      if (monthsAgo < 12) return base;
+      if (monthsAgo < 24) return Math.round(base / 2);
+      return 0;
+    }
+  }
+}
+
+// Calculate penalty points for derogatory credit events (30 max)
+export function calculatePenaltyPoints(events: DerogatoryEvent[], asOf: Date): number {
+  let penalty = 0;
+
+  for (const event of getKnownEvents(events)) {
+    const date = parseIsoDate(event.date);
+    if (isNaN(date.getTime())) continue; // Unparseable dates are skipped
+
+    penalty += calculateEventPenalty(event, monthsBetween(date, asOf));
+  }
+
+  return Math.min(MAX_PENALTY_POINTS, penalty);
+}
+
+// Find when each loan program's waiting periods end
+export function getWaitingPeriodStatus(events: DerogatoryEvent[], asOf: Date): WaitingPeriodStatus {
+  const known = getKnownEvents(events);
+  const statusFor = (program: PaymentProgram): ProgramWaitingPeriod => {
+    let latestEnd: Date | null = null;
+    let blockingEvent: DerogatoryEventType | null = null;
+
+    for (const event of known) {
+      const months = WAITING_PERIOD_MONTHS[event.type][program];
+      const date = parseIsoDate(event.date);
+      if (months === 0 || isNaN(date.getTime())) continue;
+
+      const end = addMonths(date, months);
+      if (latestEnd === null || end > latestEnd) {
+        latestEnd = end;
+        blockingEvent = event.type;
+      }
+    }
+
+    return {
+      eligibleNow: latestEnd === null || latestEnd <= asOf,
+      eligibleDate: latestEnd ? toIsoDate(latestEnd) : null,
+      blockingEvent,
+    };
+  };
+
+  return {
+    fha: statusFor("fha"),
+    va: statusFor("va"),
+    conventional: statusFor("conventional"),
+    usda: statusFor("usda"),
+  };
+}
+
+// Months from asOf until a waiting period ends (0 if already over)
+export function monthsUntil(isoDate: string, asOf: Date): number {
+  return Math.ceil(monthsBetween(asOf, parseIsoDate(isoDate)));
+}
@@ -0,0 +1,176 @@
+import type {
+  ScoreStatus,
+  ScoreInput,
+  ScoreValuesInput,
+  ScoreResult,
+  ScoreBreakdown,
+  ScoringConfig,
+  BlockerType,
+  FactorChange,
+  ScoreDiff,
+} from './types';
+import { calculateScore, calculateScoreFromValues, formatCurrency } from './calculator';
+
+// ============================================================================
+// SCORE PROGRESS
+// ============================================================================
+
+// Statuses from least to most ready
+const STATUS_ORDER: ScoreStatus[] = [
+  "JUST_EXPLORING",
+  "EARLY_STAGE",
+  "BUILDING",
+  "GETTING_CLOSE",
+  "ALMOST_READY",
+  "READY_NOW",
+];
+
+const FACTOR_LABELS: Record<keyof ScoreBreakdown, string> = {
+  credit: "credit",
+  dti: "debt-to-income ratio",
+  downPayment: "down payment",
+  employment: "employment history",
+  reserves: "reserves",
+  bonus: "bonus points",
+  penalty: "credit history",
+};
+
+const GAP_LABELS: Record<string, string> = {
+  credit: "credit",
+  down_payment: "down payment",
+  dti: "debt-to-income",
+  employment: "employment history",
+};
+
+// Anything we can score: a result, or either input shape
+type Scoreable = ScoreResult | ScoreInput | ScoreValuesInput;
+
+function toResult(value: Scoreable, config: ScoringConfig): ScoreResult {
+  if ("breakdown" in value) return value;
+  if ("creditScoreRange" in value) return calculateScore(value, config);
+  return calculateScoreFromValues(value, config);
+}
+
+// How much a factor change moved the total (penalty points count against it)
+function scoreEffect(change: FactorChange): number {
+  return change.factor === "penalty" ? -change.change : change.change;
+}
+
+// "your credit (+3) and your down payment (+2)"
+function describeDrivers(changes: FactorChange[], direction: number): string {
+  const drivers = changes
+    .filter((c) => Math.sign(scoreEffect(c)) === direction)
+    .slice(0, 2)
+    .map((c) => {
+      const effect = scoreEffect(c);
+      return `your ${FACTOR_LABELS[c.factor]} (${effect > 0 ? '+' : ''}${effect})`;
+    });
+  return drivers.join(' and ');
+}
+
+/**
+ * Compare two scores - results, or inputs to be scored - and describe what
+ * changed: per-factor points, status, gaps, the primary blocker and the
+ * sweet spot, plus client-facing messages.
+ */
+export function diffScores(
+  previous: Scoreable,
+  current: Scoreable,
+  config: ScoringConfig = {}
+): ScoreDiff {
+  const before = toResult(previous, config);
+  const after = toResult(current, config);
+
+  const factorChanges: FactorChange[] = (Object.keys(before.breakdown) as (keyof ScoreBreakdown)[])
+    .map((factor) => ({
+      factor,
+      previous: before.breakdown[factor],
+      current: after.breakdown[factor],
+      change: after.breakdown[factor] - before.breakdown[factor],
+    }))
+    .filter((c) => c.change !== 0)
+    .sort((a, b) => Math.abs(scoreEffect(b)) - Math.abs(scoreEffect(a)));
+
+  const previousFactors = new Set(before.gaps.map((g) => g.factor));
+  const currentFactors = new Set(after.gaps.map((g) => g.factor));
+  const gapsClosed = before.gaps.filter((g) => !currentFactors.has(g.factor));
+  const gapsOpened = after.gaps.filter((g) => !previousFactors.has(g.factor));
+
+  const previousBlocker: BlockerType = before.primaryBlocker?.type ?? 'NONE';
+  const currentBlocker: BlockerType = after.primaryBlocker?.type ?? 'NONE';
+
+  const statusRank = STATUS_ORDER.indexOf(after.status) - STATUS_ORDER.indexOf(before.status);
+  const statusDirection = statusRank > 0 ? "improved" : statusRank < 0 ? "declined" : "unchanged";
+  const totalChange = after.total - before.total;
+
+  const priceChange = after.sweetSpot.recommendedPrice - before.sweetSpot.recommendedPrice;
+  const paymentChange = after.sweetSpot.monthlyPayment - before.sweetSpot.monthlyPayment;
+
+  // Client-facing messages
+  const messages: string[] = [];
+  const direction = Math.sign(totalChange);
+  const drivers = direction !== 0 ? describeDrivers(factorChanges, direction) : '';
+
+  if (statusDirection !== "unchanged") {
+    messages.push(
+      `You moved from ${before.status} to ${after.status}` +
+      (drivers ? ` because of ${drivers}.` : '.')
+    );
+  } else if (totalChange !== 0) {
+    messages.push(
+      `Your score ${totalChange > 0 ? 'went up' : 'went down'} ${Math.abs(totalChange)} points to ${after.total}` +
+      (drivers ? `, mostly from ${drivers}.` : '.')
+    );
+  } else {
+    messages.push(`Your score held steady at ${after.total}.`);
+  }
+
+  for (const gap of gapsClosed) {
+    messages.push(`You closed your ${GAP_LABELS[gap.factor] ?? gap.factor} gap.`);
+  }
+  for (const gap of gapsOpened) {
+    messages.push(`New to work on: ${GAP_LABELS[gap.factor] ?? gap.factor} - ${gap.actionRequired}.`);
+  }
+
+  if (previousBlocker !== currentBlocker) {
+    messages.push(
+      currentBlocker === 'NONE'
+        ? `You cleared your ${previousBlocker} blocker - nothing major stands in your way.`
+        : previousBlocker === 'NONE'
+          ? `Something new needs attention: ${after.primaryBlocker?.headline ?? currentBlocker}.`
+          : `Your main focus shifted from ${previousBlocker} to ${currentBlocker}.`
+    );
+  }
+
+  if (Math.abs(priceChange) >= 5000) {
+    messages.push(
+      `Your sweet spot moved ${priceChange > 0 ? 'up' : 'down'} ${formatCurrency(Math.abs(priceChange))} to ${formatCurrency(after.sweetSpot.recommendedPrice)}.`
+    );
+  }
+
+  return {
+    previousTotal: before.total,
+    currentTotal: after.total,
+    totalChange,
+    previousStatus: before.status,
+    currentStatus: after.status,
+    statusDirection,
+    factorChanges,
+    gapsClosed,
+    gapsOpened,
+    blocker: {
+      previous: previousBlocker,
+      current: currentBlocker,
+      changed: previousBlocker !== currentBlocker,
+    },
+    sweetSpot: {
+      previousPrice: before.sweetSpot.recommendedPrice,
+      currentPrice: after.sweetSpot.recommendedPrice,
+      priceChange,
+      previousPayment: before.sweetSpot.monthlyPayment,
+      currentPayment: after.sweetSpot.monthlyPayment,
+      paymentChange,
+    },
+    messages,
+  };
+}
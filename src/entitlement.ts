@@ -0,0 +1,64 @@
+import type {
+  ScoreValuesInput,
+  VaLoanTerms,
+} from './types';
+import { getVaFundingFeeRate } from './payment';
+
+// ============================================================================
+// VA ENTITLEMENT & FUNDING FEE
+// ============================================================================
+
+// Veteran statuses that can use a VA loan
+export const VA_ELIGIBLE_STATUSES = ["active", "veteran", "guard-reserve", "spouse"];
+
+// VA guarantees a quarter of the loan. With a prior VA loan still active,
+// the buyer covers whatever part of that quarter their remaining
+// entitlement doesn't.
+const VA_GUARANTY_SHARE = 0.25;
+
+// A service-connected disability rating of 10% or more waives the funding fee
+const FEE_EXEMPT_DISABILITY_RATING = 10;
+
+export function isVaEligible(veteranStatus: string | null | undefined): boolean {
+  return !!veteranStatus && VA_ELIGIBLE_STATUSES.includes(veteranStatus);
+}
+
+/**
+ * VA terms at a price. Full entitlement has no zero-down ceiling; partial
+ * entitlement allows nothing down up to four times the remaining
+ * entitlement, and 25% of the price above that. The funding fee depends on
+ * prior use and the down payment, and is waived for a 10%+ disability
+ * rating.
+ */
+export function getVaLoanTerms(
+  price: number,
+  values: Pick<ScoreValuesInput, 'vaSubsequentUse' | 'vaFundingFeeExempt' | 'vaDisabilityRating' | 'vaRemainingEntitlement'>
+): VaLoanTerms {
+  const remaining = values.vaRemainingEntitlement ?? null;
+  const partial = remaining !== null;
+  const remainingEntitlement = partial ? Math.max(0, remaining) : null;
+  const downPaymentRequired = remainingEntitlement !== null
+    ? Math.max(0, Math.round(price * VA_GUARANTY_SHARE - remainingEntitlement))
+    : 0;
+  const downPaymentPercent = price > 0 ? downPaymentRequired / price : 0;
+
+  const rating = values.vaDisabilityRating ?? null;
+  const exemptReason = rating !== null && rating >= FEE_EXEMPT_DISABILITY_RATING
+    ? `${rating}% service-connected disability rating`
+    : values.vaFundingFeeExempt
+      ? "Funding fee exemption"
+      : null;
+  const subsequentUse = values.vaSubsequentUse === true || partial;
+
+  return {
+    entitlement: partial ? "partial" : "full",
+    remainingEntitlement,
+    zeroDownLimit: remainingEntitlement !== null ? remainingEntitlement / VA_GUARANTY_SHARE : null,
+    downPaymentRequired,
+    downPaymentPercent,
+    subsequentUse,
+    fundingFeeRate: exemptReason ? 0 : getVaFundingFeeRate(downPaymentPercent, subsequentUse),
+    fundingFeeExempt: exemptReason !== null,
+    exemptReason,
+  };
+}
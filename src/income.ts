@@ -0,0 +1,144 @@
+import type {
+  IncomeSource,
+  IncomeType,
+  PaymentProgram,
+  QualifyingIncome,
+  QualifyingIncomeItem,
+} from './types';
+
+// ============================================================================
+// QUALIFYING INCOME
+// ============================================================================
+
+// Income types the intake form sends
+export const INCOME_TYPES: IncomeType[] = [
+  "salary",
+  "hourly",
+  "self-employed",
+  "commission",
+  "bonus",
+  "overtime",
+  "social-security",
+  "pension",
+  "rental",
+  "other",
+];
+
+// Lenders count 75% of gross rent - the rest covers vacancy and upkeep
+const RENTAL_INCOME_SHARE = 0.75;
+
+// Non-taxable income is grossed up to compare with pre-tax income. FHA uses
+// 15%; the other programs' lenders typically use 25%.
+const NON_TAXABLE_GROSS_UP: Record<PaymentProgram, number> = {
+  fha: 0.15,
+  va: 0.25,
+  conventional: 0.25,
+  usda: 0.25,
+};
+
+// Variable and self-employment income needs at least a year of history,
+// and is averaged over the last two years plus year-to-date
+export const HISTORY_INCOME_TYPES: IncomeType[] = ["self-employed", "commission", "bonus", "overtime"];
+export const MIN_HISTORY_MONTHS = 12;
+const HISTORY_YEARS = 2;
+
+type Counted = Omit<QualifyingIncomeItem, 'type' | 'name'>;
+
+// Average variable or self-employment income over year-to-date and the last
+// two years. When the most recent period is lower than the one before, the
+// lower recent amount is used instead of the average.
+function averageIncome(source: IncomeSource): Counted {
+  const years = [...(source.history ?? [])]
+    .sort((a, b) => b.year - a.year)
+    .slice(0, HISTORY_YEARS);
+  const ytdMonths = source.yearToDate !== null && source.yearToDate !== undefined
+    ? Math.max(0, source.monthsYearToDate ?? 0)
+    : 0;
+  const ytd = ytdMonths > 0 ? source.yearToDate ?? 0 : 0;
+  const months = ytdMonths + years.length * 12;
+
+  if (months < MIN_HISTORY_MONTHS) {
+    return { monthly: 0, rule: `Needs ${MIN_HISTORY_MONTHS}+ months of history`, declining: false };
+  }
+
+  const average = (ytd + years.reduce((sum, y) => sum + y.amount, 0)) / months;
+  const recent = ytdMonths > 0 ? ytd / ytdMonths : years[0].amount / 12;
+  const prior = ytdMonths > 0 ? years[0]?.amount : years[1]?.amount;
+  const declining = prior !== undefined && recent < prior / 12;
+
+  if (declining && recent < average) {
+    return { monthly: recent, rule: "Declining - most recent period only", declining };
+  }
+  return {
+    monthly: average,
+    rule: `${months}-month average${source.type === "self-employed" ? " of net business income" : ""}`,
+    declining,
+  };
+}
+
+// Count one income source
+function countIncome(source: IncomeSource, program: PaymentProgram): Counted {
+  switch (source.type) {
+    case "self-employed":
+    case "commission":
+    case "bonus":
+    case "overtime":
+      return averageIncome(source);
+    case "social-security":
+    case "pension": {
+      const monthly = (source.annualAmount ?? 0) / 12;
+      const grossUp = NON_TAXABLE_GROSS_UP[program];
+      return source.nonTaxable
+        ? { monthly: monthly * (1 + grossUp), rule: `Non-taxable - grossed up ${grossUp * 100}%`, declining: false }
+        : { monthly, rule: "Monthly benefit", declining: false };
+    }
+    case "rental": {
+      const net = (source.monthlyRent ?? 0) * RENTAL_INCOME_SHARE - (source.propertyPayment ?? 0);
+      return {
+        monthly: net,
+        rule: source.propertyPayment ? "75% of rent less the property's payment" : "75% of rent",
+        declining: false,
+      };
+    }
+    default: {
+      // Salary, hourly and other steady income: current amount, or the last year on file
+      const latest = [...(source.history ?? [])].sort((a, b) => b.year - a.year)[0];
+      return source.annualAmount !== null && source.annualAmount !== undefined
+        ? { monthly: source.annualAmount / 12, rule: "Current annual amount", declining: false }
+        : { monthly: (latest?.amount ?? 0) / 12, rule: latest ? `${latest.year} income` : "No amount given", declining: false };
+    }
+  }
+}
+
+/**
+ * Monthly income as a program's underwriting counts it: variable and
+ * self-employment income averaged over two years (or the lower recent amount
+ * when it's declining), 75% of rental income net of the property's payment,
+ * and non-taxable benefits grossed up. Net rental losses come back as
+ * rentalLoss to be counted as debt.
+ */
+export function calculateQualifyingIncome(sources: IncomeSource[], program: PaymentProgram): QualifyingIncome {
+  const items: QualifyingIncomeItem[] = sources.map((source) => {
+    const counted = countIncome(source, program);
+    return {
+      type: source.type,
+      name: source.name ?? null,
+      ...counted,
+      monthly: Math.round(counted.monthly),
+    };
+  });
+
+  const rentalLoss = items
+    .filter((item) => item.type === "rental" && item.monthly < 0)
+    .reduce((sum, item) => sum - item.monthly, 0);
+  const monthlyIncome = items
+    .filter((item) => !(item.type === "rental" && item.monthly < 0))
+    .reduce((sum, item) => sum + item.monthly, 0);
+
+  return {
+    program,
+    monthlyIncome: Math.max(0, monthlyIncome),
+    rentalLoss,
+    items,
+  };
+}
@@ -1,2 +1,17 @@
 export * from './types';
-export { calculateScore, calculateScoreFromValues, calculateScoreAtPrice, calculateAffordability, estimateMonthlyPayment, calculateMaxPriceForDti } from './calculator';
+export { calculateScore, calculateScoreFromValues, calculateScoreAtPrice, calculateAffordability, calculateMaxPriceForDti, calculateMaxPrice, selectFinancingPlan, projectReadiness, planDebtPayoff } from './calculator';
+export { estimateMonthlyPayment, calculatePaymentBreakdown, DEFAULT_SCORING_CONFIG } from './payment';
+export { buildAmortizationSchedule, buildSweetSpotAmortization } from './amortization';
+export { compareRentVsBuy } from './rent-vs-buy';
+export { diffScores } from './diff';
+export { REASON_CODES } from './reason-codes';
+export { UTAH_ASSISTANCE_PROGRAMS, DEFAULT_ASSISTANCE_PROGRAMS } from './programs';
+export { UTAH_LOCATIONS, DEFAULT_LOCATIONS, findLocation } from './locations';
+export { calculateQualifyingDebts } from './debts';
+export { calculateQualifyingIncome } from './income';
+export { getRepresentativeScore } from './credit';
+export { DEFAULT_RATE_PRICING, getRateAdjustment } from './pricing';
+export { calculateResidualIncome } from './residual';
+export { getVaLoanTerms, isVaEligible } from './entitlement';
+export { DEFAULT_CLOSING_COSTS, calculateCashToClose, estimateClosingCosts } from './closing';
+export { validateScoreInput, validateScoreValues, ScoreInputError } from './validation';
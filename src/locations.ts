@@ -0,0 +1,121 @@
+import type { LocationData } from './types';
+
+// ============================================================================
+// LOCAL MARKET DATA
+// ============================================================================
+
+// Baseline one-unit loan limits (2025 values) - most counties sit at these
+export const CONFORMING_LIMIT_BASELINE = 806500;
+export const FHA_LIMIT_FLOOR = 524225;
+
+// Utah counties we serve (2025 values). Property tax rates are effective
+// rates on market value for a primary residence; area median income is
+// HUD's median family income for the county's metro area.
+export const UTAH_LOCATIONS: LocationData[] = [
+  {
+    id: "salt-lake-ut",
+    county: "Salt Lake County",
+    state: "UT",
+    zipCodes: [
+      "84020", "84044", "84047", "84065", "84070", "84084", "84088", "84092", "84093", "84094",
+      "84095", "84096", "84101", "84102", "84103", "84104", "84105", "84106", "84107", "84108",
+      "84109", "84111", "84115", "84116", "84117", "84118", "84119", "84120", "84121", "84123",
+      "84124", "84129",
+    ],
+    conformingLimit: CONFORMING_LIMIT_BASELINE,
+    fhaLimit: 603750,
+    propertyTaxRate: 0.0056,
+    areaMedianIncome: 121600,
+  },
+  {
+    id: "utah-ut",
+    county: "Utah County",
+    state: "UT",
+    zipCodes: [
+      "84003", "84004", "84005", "84042", "84043", "84045", "84057", "84058", "84062", "84097",
+      "84601", "84602", "84604", "84606", "84651", "84660", "84663", "84664",
+    ],
+    conformingLimit: CONFORMING_LIMIT_BASELINE,
+    fhaLimit: 600300,
+    propertyTaxRate: 0.0053,
+    areaMedianIncome: 111200,
+  },
+  {
+    id: "davis-ut",
+    county: "Davis County",
+    state: "UT",
+    zipCodes: ["84010", "84014", "84015", "84025", "84037", "84040", "84041", "84054", "84075", "84087"],
+    conformingLimit: CONFORMING_LIMIT_BASELINE,
+    fhaLimit: 587650,
+    propertyTaxRate: 0.006,
+    areaMedianIncome: 117700,
+  },
+  {
+    id: "weber-ut",
+    county: "Weber County",
+    state: "UT",
+    zipCodes: ["84067", "84401", "84403", "84404", "84405", "84414"],
+    conformingLimit: CONFORMING_LIMIT_BASELINE,
+    fhaLimit: 587650,
+    propertyTaxRate: 0.0062,
+    areaMedianIncome: 117700,
+  },
+  {
+    id: "washington-ut",
+    county: "Washington County",
+    state: "UT",
+    zipCodes: ["84737", "84738", "84765", "84770", "84780", "84782", "84790"],
+    conformingLimit: CONFORMING_LIMIT_BASELINE,
+    fhaLimit: 592250,
+    propertyTaxRate: 0.0051,
+    areaMedianIncome: 89500,
+  },
+  {
+    id: "summit-ut",
+    county: "Summit County",
+    state: "UT",
+    zipCodes: ["84017", "84036", "84060", "84061", "84068", "84098"],
+    conformingLimit: 1209750, // High-cost area
+    fhaLimit: 1209750,
+    propertyTaxRate: 0.0044,
+    areaMedianIncome: 155000,
+  },
+  {
+    id: "cache-ut",
+    county: "Cache County",
+    state: "UT",
+    zipCodes: ["84318", "84321", "84325", "84332", "84335", "84341"],
+    conformingLimit: CONFORMING_LIMIT_BASELINE,
+    fhaLimit: FHA_LIMIT_FLOOR,
+    propertyTaxRate: 0.0063,
+    areaMedianIncome: 86300,
+  },
+];
+
+// Default location table when a tenant doesn't supply their own
+export const DEFAULT_LOCATIONS: LocationData[] = UTAH_LOCATIONS;
+
+// "Salt Lake County, UT" -> "salt-lake-ut"
+function toSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\bcounty\b/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Find a location by ZIP code (5-digit or ZIP+4), id or county name
+// ("Salt Lake", "Salt Lake County, UT"). Unknown locations return null.
+export function findLocation(locations: LocationData[], location: string | null | undefined): LocationData | null {
+  if (!location) return null;
+
+  const zip = location.trim().match(/^(\d{5})(-\d{4})?$/);
+  if (zip) {
+    return locations.find((l) => l.zipCodes.includes(zip[1])) ?? null;
+  }
+
+  const slug = toSlug(location);
+  return locations.find((l) =>
+    l.id === slug || toSlug(l.county) === slug || toSlug(`${l.county} ${l.state}`) === slug
+  ) ?? null;
+}
@@ -0,0 +1,224 @@
+import type {
+  ScoringConfig,
+  PaymentProfile,
+  PaymentBreakdown,
+} from './types';
+import { DEFAULT_ASSISTANCE_PROGRAMS } from './programs';
+import { DEFAULT_LOCATIONS, findLocation } from './locations';
+import { DEFAULT_RATE_PRICING, getRateAdjustment } from './pricing';
+import { DEFAULT_CLOSING_COSTS } from './closing';
+
+// ============================================================================
+// MARKET ASSUMPTIONS
+// ============================================================================
+
+// Default market assumptions (tenants override via ScoringConfig)
+export const DEFAULT_SCORING_CONFIG: Required<ScoringConfig> = {
+  rate: 0.06,              // 6.0% as of Jan 2025
+  termYears: 30,
+  propertyTaxRate: 0.012,  // 1.2% of price per year
+  monthlyInsurance: 100,
+  pmiRate: 0.008,          // ~0.8% of loan amount per year (generic estimate only)
+  assistancePrograms: DEFAULT_ASSISTANCE_PROGRAMS,
+  locations: DEFAULT_LOCATIONS,
+  creditScorePolicy: "lowest-middle",
+  ratePricing: DEFAULT_RATE_PRICING,
+  closingCosts: DEFAULT_CLOSING_COSTS,
+};
+
+// Fill in any assumptions the caller didn't provide. A known location
+// (county or ZIP) supplies the property tax rate unless the config sets one.
+export function resolveConfig(config: ScoringConfig = {}, location?: string | null): Required<ScoringConfig> {
+  const locations = config.locations ?? DEFAULT_SCORING_CONFIG.locations;
+  const area = findLocation(locations, location);
+
+  return {
+    rate: config.rate ?? DEFAULT_SCORING_CONFIG.rate,
+    termYears: config.termYears ?? DEFAULT_SCORING_CONFIG.termYears,
+    propertyTaxRate: config.propertyTaxRate ?? area?.propertyTaxRate ?? DEFAULT_SCORING_CONFIG.propertyTaxRate,
+    monthlyInsurance: config.monthlyInsurance ?? DEFAULT_SCORING_CONFIG.monthlyInsurance,
+    pmiRate: config.pmiRate ?? DEFAULT_SCORING_CONFIG.pmiRate,
+    assistancePrograms: config.assistancePrograms ?? DEFAULT_SCORING_CONFIG.assistancePrograms,
+    locations,
+    creditScorePolicy: config.creditScorePolicy ?? DEFAULT_SCORING_CONFIG.creditScorePolicy,
+    ratePricing: config.ratePricing ?? DEFAULT_SCORING_CONFIG.ratePricing,
+    closingCosts: config.closingCosts ?? DEFAULT_SCORING_CONFIG.closingCosts,
+  };
+}
+
+// ============================================================================
+// PROGRAM PAYMENT MODELS
+// ============================================================================
+
+// Program mortgage insurance and fee schedules (2025 values)
+export const PAYMENT_MODELS = {
+  fha: {
+    upfrontMip: 0.0175,             // Financed into the loan
+    highBalanceLimit: 726200,       // Base loans above this pay higher annual MIP
+    annualMip: { highLtv: 0.0055, lowLtv: 0.005 },            // LTV > 95% / <= 95%
+    annualMipHighBalance: { highLtv: 0.0075, lowLtv: 0.007 },
+    lifeOfLoanLtv: 0.9,             // Above 90% LTV, MIP never cancels
+    cancelAfterMonths: 132,         // Otherwise MIP ends after 11 years
+  },
+  va: {
+    // Funding fee by down payment: under 5%, 5-10%, 10%+
+    fundingFeeFirstUse: [0.0215, 0.015, 0.0125],
+    fundingFeeSubsequentUse: [0.033, 0.015, 0.0125],
+  },
+  conventional: {
+    cancelLtv: 0.78,                // PMI drops automatically at 78% of original value
+    // Annual PMI rate by LTV band (highest first) and credit tier
+    pmiGrid: [
+      { minLtv: 0.95, rates: { 760: 0.0058, 740: 0.007, 720: 0.0087, 700: 0.0099, 680: 0.0121, 660: 0.014, 640: 0.015, 620: 0.0186 } },
+      { minLtv: 0.9, rates: { 760: 0.0038, 740: 0.0049, 720: 0.0061, 700: 0.007, 680: 0.0087, 660: 0.011, 640: 0.012, 620: 0.014 } },
+      { minLtv: 0.85, rates: { 760: 0.0028, 740: 0.0038, 720: 0.0046, 700: 0.0055, 680: 0.0064, 660: 0.0088, 640: 0.0096, 620: 0.011 } },
+      { minLtv: 0.8, rates: { 760: 0.0019, 740: 0.002, 720: 0.0023, 700: 0.0028, 680: 0.0034, 660: 0.0046, 640: 0.0051, 620: 0.0056 } },
+    ],
+  },
+  usda: {
+    upfrontGuaranteeFee: 0.01,      // 1% of loan, financed
+    annualFee: 0.0035,              // 0.35% of loan per year, life of loan
+  },
+};
+
+// Monthly principal and interest for a fully amortizing loan
+export function calculatePrincipalAndInterest(loanAmount: number, rate: number, termYears: number): number {
+  const monthlyRate = rate / 12;
+  const numPayments = termYears * 12;
+
+  if (monthlyRate === 0) return loanAmount / numPayments;
+
+  return (loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numPayments))) /
+    (Math.pow(1 + monthlyRate, numPayments) - 1);
+}
+
+// Months until the balance amortizes down to a target amount
+function monthsToReachBalance(
+  loanAmount: number,
+  targetBalance: number,
+  monthlyPayment: number,
+  rate: number,
+  termYears: number
+): number {
+  if (loanAmount <= targetBalance) return 0;
+
+  const monthlyRate = rate / 12;
+  if (monthlyRate === 0) return Math.ceil((loanAmount - targetBalance) / monthlyPayment);
+
+  // Balance after n payments: (L - P/r)(1+r)^n + P/r
+  const payoff = monthlyPayment / monthlyRate;
+  const months = Math.log((payoff - targetBalance) / (payoff - loanAmount)) / Math.log(1 + monthlyRate);
+  return Math.min(termYears * 12, Math.ceil(months));
+}
+
+// VA funding fee rate for a down payment, higher after first use
+export function getVaFundingFeeRate(downPaymentPercent: number, subsequentUse: boolean | null | undefined): number {
+  const fees = subsequentUse
+    ? PAYMENT_MODELS.va.fundingFeeSubsequentUse
+    : PAYMENT_MODELS.va.fundingFeeFirstUse;
+  const tier = downPaymentPercent >= 0.1 ? 2 : downPaymentPercent >= 0.05 ? 1 : 0;
+  return fees[tier];
+}
+
+// Conventional PMI rate for an LTV and credit score
+function getConventionalPmiRate(ltv: number, creditScore: number | null | undefined): number {
+  const band = PAYMENT_MODELS.conventional.pmiGrid.find((b) => ltv > b.minLtv);
+  if (!band) return 0; // 80% LTV or less - no PMI
+
+  const score = creditScore || 650;
+  const tiers = [760, 740, 720, 700, 680, 660, 640, 620] as const;
+  const tier = tiers.find((t) => score >= t) ?? 620;
+  return band.rates[tier];
+}
+
+// Full monthly payment breakdown. Program payments price the rate for the
+// profile's credit score and LTV. Without a profile, uses the generic
+// estimate (par rate, flat PMI on every loan) the calculator has always used.
+export function calculatePaymentBreakdown(
+  price: number,
+  downPaymentPercent: number = 0.035,
+  config: ScoringConfig = {},
+  profile?: PaymentProfile
+): PaymentBreakdown {
+  const { rate: parRate, termYears, propertyTaxRate, monthlyInsurance, pmiRate, ratePricing } =
+    resolveConfig(config, profile?.location);
+  const termMonths = termYears * 12;
+  const baseLoanAmount = price - price * downPaymentPercent;
+  const ltv = price > 0 ? baseLoanAmount / price : 0;
+  const rate = profile
+    ? parRate + getRateAdjustment(ratePricing, profile.program, profile.creditScore, ltv)
+    : parRate;
+
+  let upfrontFee = 0;
+  let annualMiRate = 0;
+  let miMonths = 0;
+
+  switch (profile?.program) {
+    case "fha": {
+      const model = PAYMENT_MODELS.fha;
+      const mip = baseLoanAmount > model.highBalanceLimit ? model.annualMipHighBalance : model.annualMip;
+      upfrontFee = baseLoanAmount * model.upfrontMip;
+      annualMiRate = ltv > 0.95 ? mip.highLtv : mip.lowLtv;
+      miMonths = ltv > model.lifeOfLoanLtv ? termMonths : model.cancelAfterMonths;
+      break;
+    }
+    case "va": {
+      // No monthly mortgage insurance - just the one-time funding fee
+      if (!profile.vaFundingFeeExempt) {
+        upfrontFee = baseLoanAmount * getVaFundingFeeRate(downPaymentPercent, profile.vaSubsequentUse);
+      }
+      break;
+    }
+    case "conventional":
+      annualMiRate = getConventionalPmiRate(ltv, profile.creditScore);
+      break;
+    case "usda":
+      upfrontFee = baseLoanAmount * PAYMENT_MODELS.usda.upfrontGuaranteeFee;
+      annualMiRate = PAYMENT_MODELS.usda.annualFee;
+      miMonths = termMonths;
+      break;
+    default:
+      annualMiRate = pmiRate;
+      miMonths = pmiRate > 0 ? termMonths : 0;
+  }
+
+  const loanAmount = baseLoanAmount + upfrontFee;
+  const principalAndInterest = calculatePrincipalAndInterest(loanAmount, rate, termYears);
+  const propertyTax = (price * propertyTaxRate) / 12;
+  const mortgageInsurance = (baseLoanAmount * annualMiRate) / 12;
+
+  // Conventional PMI runs until the balance reaches 78% of the original value
+  if (profile?.program === "conventional" && annualMiRate > 0) {
+    miMonths = monthsToReachBalance(
+      loanAmount,
+      price * PAYMENT_MODELS.conventional.cancelLtv,
+      principalAndInterest,
+      rate,
+      termYears
+    );
+  }
+
+  return {
+    program: profile?.program ?? null,
+    rate,
+    baseLoanAmount,
+    loanAmount,
+    upfrontFee,
+    principalAndInterest,
+    propertyTax,
+    insurance: monthlyInsurance,
+    mortgageInsurance,
+    mortgageInsuranceMonths: mortgageInsurance > 0 ? miMonths : 0,
+    total: principalAndInterest + propertyTax + monthlyInsurance + mortgageInsurance,
+  };
+}
+
+// Estimate monthly payment (PITI)
+export function estimateMonthlyPayment(
+  price: number,
+  downPaymentPercent: number = 0.035,
+  config: ScoringConfig = {},
+  profile?: PaymentProfile
+): number {
+  return calculatePaymentBreakdown(price, downPaymentPercent, config, profile).total;
+}
@@ -0,0 +1,208 @@
+import type {
+  DebtItem,
+  DebtType,
+  PaymentProgram,
+  PayoffStrategy,
+} from './types';
+import { calculateQualifyingDebts } from './debts';
+
+// ============================================================================
+// DEBT PAYOFF SIMULATION
+// ============================================================================
+
+export const PAYOFF_STRATEGIES: PayoffStrategy[] = ["avalanche", "snowball", "payment-freed"];
+
+// Plans stop after 10 years
+const PAYOFF_HORIZON_MONTHS = 120;
+
+// Card minimum when the report doesn't show one
+const REVOLVING_MIN_PAYMENT_RATE = 0.03;
+
+const DEBT_TYPE_LABELS: Record<DebtType, string> = {
+  "credit-card": "Credit card",
+  "auto-loan": "Auto loan",
+  "student-loan": "Student loan",
+  "personal-loan": "Personal loan",
+  "child-support": "Child support",
+  alimony: "Alimony",
+  other: "Debt",
+};
+
+// One month of a simulated payoff
+export interface PayoffStep {
+  month: number;
+  totalBalance: number;
+  qualifyingDebts: number;
+  paidOff: string[];
+  interest: number;                  // Interest accrued this month
+}
+
+interface PayoffAccount {
+  label: string;
+  debt: DebtItem;
+  balance: number;
+  minimumPayment: number;
+  paymentsRemaining: number | null;
+}
+
+// Display label for a debt ("Chase Visa", or "Credit card 2" when unnamed;
+// unknown types get the generic "Debt 2")
+export function getDebtLabel(debt: DebtItem, index: number): string {
+  return debt.name || `${DEBT_TYPE_LABELS[debt.type] ?? DEBT_TYPE_LABELS.other} ${index + 1}`;
+}
+
+function toAccount(debt: DebtItem, index: number): PayoffAccount {
+  const payment = debt.monthlyPayment ?? 0;
+  const paymentsRemaining = debt.paymentsRemaining ?? null;
+  // Installment loans without a balance are approximated from what's left to pay
+  const balance = debt.balance ?? (paymentsRemaining !== null ? payment * paymentsRemaining : 0);
+
+  return {
+    label: getDebtLabel(debt, index),
+    debt,
+    balance,
+    minimumPayment: debt.deferred
+      ? 0
+      : debt.type === "credit-card" && payment === 0
+        ? balance * REVOLVING_MIN_PAYMENT_RATE
+        : payment,
+    paymentsRemaining,
+  };
+}
+
+// The debt as it stands now, for re-counting qualifying debt
+function currentDebt(account: PayoffAccount): DebtItem {
+  return { ...account.debt, balance: account.balance, paymentsRemaining: account.paymentsRemaining };
+}
+
+// Order accounts with balances for a strategy
+function orderAccounts(
+  accounts: PayoffAccount[],
+  strategy: PayoffStrategy,
+  program: PaymentProgram,
+  monthlyIncome: number
+): PayoffAccount[] {
+  const counted = new Map(accounts.map((a) => [a, calculateQualifyingDebts([currentDebt(a)], program, monthlyIncome).total]));
+  // Qualifying debt each dollar of balance frees up
+  const freedPerDollar = (a: PayoffAccount) => (counted.get(a) ?? 0) / a.balance;
+  const byBalance = (a: PayoffAccount, b: PayoffAccount) => a.balance - b.balance;
+
+  switch (strategy) {
+    case "avalanche":
+      return [...accounts].sort((a, b) => (b.debt.interestRate ?? 0) - (a.debt.interestRate ?? 0) || byBalance(a, b));
+    case "snowball":
+      return [...accounts].sort(byBalance);
+    case "payment-freed":
+      return [...accounts].sort((a, b) => freedPerDollar(b) - freedPerDollar(a) || byBalance(a, b));
+  }
+}
+
+/**
+ * Simulate paying down itemized debts: minimums on everything, plus the
+ * monthly budget (and any minimums freed by paid-off accounts) aimed at one
+ * account at a time in strategy order. Debts without a balance (child
+ * support, payment-only entries) are carried as-is.
+ */
+export function simulatePayoff(
+  debts: DebtItem[],
+  monthlyBudget: number,
+  strategy: PayoffStrategy,
+  program: PaymentProgram,
+  monthlyIncome: number
+): { order: string[]; steps: PayoffStep[] } {
+  const accounts = debts.map(toAccount);
+  const fixed = accounts.filter((a) => a.balance <= 0).map((a) => a.debt);
+  const order = orderAccounts(accounts.filter((a) => a.balance > 0), strategy, program, monthlyIncome);
+  let open = [...order];
+  let freed = 0;
+
+  const snapshot = (month: number, paidOff: string[], interest: number): PayoffStep => ({
+    month,
+    totalBalance: Math.round(open.reduce((sum, a) => sum + a.balance, 0)),
+    qualifyingDebts: calculateQualifyingDebts([...open.map(currentDebt), ...fixed], program, monthlyIncome).total,
+    paidOff,
+    interest,
+  });
+
+  const steps: PayoffStep[] = [snapshot(0, [], 0)];
+
+  for (let month = 1; month <= PAYOFF_HORIZON_MONTHS && open.length > 0; month++) {
+    let interest = 0;
+
+    // Interest, then minimums
+    for (const account of open) {
+      const accrued = account.balance * ((account.debt.interestRate ?? 0) / 12);
+      interest += accrued;
+      account.balance += accrued - Math.min(account.minimumPayment, account.balance + accrued);
+      if (account.paymentsRemaining !== null && account.minimumPayment > 0) {
+        account.paymentsRemaining = Math.max(0, account.paymentsRemaining - 1);
+      }
+    }
+
+    // Budget plus freed minimums go to accounts in order
+    let extra = monthlyBudget + freed;
+    for (const account of open) {
+      if (extra <= 0) break;
+      const payment = Math.min(extra, account.balance);
+      account.balance -= payment;
+      extra -= payment;
+    }
+
+    const paidOff = open.filter((a) => a.balance < 0.01 || a.paymentsRemaining === 0);
+    freed += paidOff.reduce((sum, a) => sum + a.minimumPayment, 0);
+    open = open.filter((a) => !paidOff.includes(a));
+
+    steps.push(snapshot(month, paidOff.map((a) => a.label), Math.round(interest)));
+  }
+
+  return { order: order.map((a) => a.label), steps };
+}
+
+/**
+ * Pick accounts to pay off today to cut qualifying monthly debt by at least
+ * the reduction: most payment freed per dollar first, trimmed of accounts the
+ * others already cover, unless a single account does it for less. Returns
+ * every account when nothing gets there.
+ */
+export function selectLumpSumPayoff(
+  debts: DebtItem[],
+  program: PaymentProgram,
+  monthlyIncome: number,
+  reduction: number
+): { accounts: string[]; lumpSum: number; qualifyingDebts: number } {
+  const accounts = debts.map(toAccount);
+  const counted = calculateQualifyingDebts(debts, program, monthlyIncome).items.map((item) => item.counted);
+  const candidates = accounts
+    .map((account, i) => ({ account, freed: counted[i] }))
+    .filter((c) => c.account.balance > 0 && c.freed > 0)
+    .sort((a, b) => b.freed / b.account.balance - a.freed / a.account.balance);
+
+  let chosen: typeof candidates = [];
+  let freed = 0;
+  for (const candidate of candidates) {
+    if (freed >= reduction) break;
+    chosen.push(candidate);
+    freed += candidate.freed;
+  }
+
+  // Drop accounts the rest already cover, most expensive first
+  for (const candidate of [...chosen].sort((a, b) => b.account.balance - a.account.balance)) {
+    if (freed - candidate.freed >= reduction) {
+      chosen = chosen.filter((c) => c !== candidate);
+      freed -= candidate.freed;
+    }
+  }
+
+  const cost = (set: typeof candidates) => set.reduce((sum, c) => sum + c.account.balance, 0);
+  const single = candidates
+    .filter((c) => c.freed >= reduction)
+    .sort((a, b) => a.account.balance - b.account.balance)[0];
+  if (single && cost([single]) < cost(chosen)) chosen = [single];
+
+  const remaining = accounts.filter((a) => !chosen.some((c) => c.account === a));
+  return {
+    accounts: chosen.map((c) => c.account.label),
+    lumpSum: Math.round(cost(chosen)),
+    qualifyingDebts: calculateQualifyingDebts(remaining.map((a) => a.debt), program, monthlyIncome).total,
+  };
+}
@@ -0,0 +1,82 @@
+import type {
+  PaymentProgram,
+  RateAdjustmentBand,
+  RatePricingGrid,
+} from './types';
+
+// ============================================================================
+// CREDIT-TIER RATE PRICING
+// ============================================================================
+
+// Conventional add-ons approximate the agency loan-level price adjustments
+// (2025 grid, converted to rate at roughly 5 points per 1%). Government
+// loans price mostly on score, so they use a single band.
+export const DEFAULT_RATE_PRICING: RatePricingGrid = {
+  conventional: [
+    { minLtv: 0.95, adjustments: { 780: 0.00025, 760: 0.0005, 740: 0.001, 720: 0.0015, 700: 0.00175, 680: 0.00225, 660: 0.0025, 640: 0.003, 620: 0.0035 } },
+    { minLtv: 0.9, adjustments: { 780: 0.0005, 760: 0.001, 740: 0.00125, 720: 0.00175, 700: 0.00225, 680: 0.00275, 660: 0.00325, 640: 0.00375, 620: 0.0045 } },
+    { minLtv: 0.85, adjustments: { 780: 0.0005, 760: 0.00125, 740: 0.0015, 720: 0.002, 700: 0.0025, 680: 0.003, 660: 0.0035, 640: 0.004, 620: 0.0045 } },
+    { minLtv: 0.8, adjustments: { 780: 0.00075, 760: 0.00175, 740: 0.002, 720: 0.0025, 700: 0.003, 680: 0.00375, 660: 0.00425, 640: 0.005, 620: 0.0055 } },
+    { minLtv: 0.75, adjustments: { 780: 0.00075, 760: 0.00125, 740: 0.00175, 720: 0.0025, 700: 0.00275, 680: 0.0035, 660: 0.00375, 640: 0.0045, 620: 0.005 } },
+    { minLtv: 0.7, adjustments: { 780: 0, 760: 0.0005, 740: 0.00125, 720: 0.002, 700: 0.0025, 680: 0.003, 660: 0.00325, 640: 0.00375, 620: 0.00425 } },
+    { minLtv: 0.6, adjustments: { 780: 0, 760: 0.0005, 740: 0.00075, 720: 0.0015, 700: 0.00175, 680: 0.0025, 660: 0.00275, 640: 0.003, 620: 0.003 } },
+    { minLtv: 0, adjustments: { 780: 0, 760: 0, 740: 0, 720: 0, 700: 0, 680: 0, 660: 0, 640: 0.0005, 620: 0.001 } },
+  ],
+  fha: [
+    { minLtv: 0, adjustments: { 700: 0, 680: 0.000625, 660: 0.00125, 640: 0.0025, 620: 0.00375, 580: 0.005, 500: 0.0075 } },
+  ],
+  va: [
+    { minLtv: 0, adjustments: { 700: 0, 680: 0.000625, 660: 0.00125, 640: 0.0025, 620: 0.00375, 580: 0.005, 500: 0.0075 } },
+  ],
+  usda: [
+    { minLtv: 0, adjustments: { 700: 0, 680: 0.000625, 660: 0.00125, 640: 0.0025, 620: 0.00375, 580: 0.005, 500: 0.0075 } },
+  ],
+};
+
+// The band covering an LTV (the lowest band when none does)
+function findBand(bands: RateAdjustmentBand[], ltv: number): RateAdjustmentBand | null {
+  return bands.find((b) => ltv > b.minLtv) ?? bands[bands.length - 1] ?? null;
+}
+
+// Credit tiers in a band, highest first
+function getTiers(band: RateAdjustmentBand): number[] {
+  return Object.keys(band.adjustments).map(Number).sort((a, b) => b - a);
+}
+
+/**
+ * Rate add-on for a program, credit score and LTV. Unknown scores price at
+ * 650, like the rest of the calculator; programs missing from the grid
+ * get no add-on.
+ */
+export function getRateAdjustment(
+  grid: RatePricingGrid,
+  program: PaymentProgram,
+  creditScore: number | null | undefined,
+  ltv: number
+): number {
+  const band = findBand(grid[program] ?? [], ltv);
+  if (!band) return 0;
+
+  const score = creditScore || 650;
+  const tiers = getTiers(band);
+  const tier = tiers.find((t) => score >= t) ?? tiers[tiers.length - 1];
+  return tier !== undefined ? band.adjustments[tier] : 0;
+}
+
+// The lowest score above the current one that prices at a lower rate, or
+// null when the buyer is already in the best tier
+export function getNextRateTier(
+  grid: RatePricingGrid,
+  program: PaymentProgram,
+  creditScore: number | null | undefined,
+  ltv: number
+): number | null {
+  const band = findBand(grid[program] ?? [], ltv);
+  if (!band) return null;
+
+  const current = getRateAdjustment(grid, program, creditScore, ltv);
+  const score = creditScore || 650;
+  return getTiers(band)
+    .reverse()
+    .find((t) => t > score && band.adjustments[t] < current) ?? null;
+}
@@ -0,0 +1,76 @@
+import type { AssistanceProgram } from './types';
+
+// ============================================================================
+// ASSISTANCE PROGRAM REGISTRY
+// ============================================================================
+
+// Utah Housing programs (2025 values). Both are FHA-insured, so FHA waiting
+// periods apply, and both pay assistance as a 30-year second mortgage.
+export const UTAH_ASSISTANCE_PROGRAMS: AssistanceProgram[] = [
+  {
+    id: "ut-firsthome",
+    name: "Utah FirstHome",
+    sponsor: "Utah Housing",
+    state: "UT",
+    loanProgram: "fha",
+    minCreditScore: 660,
+    firstTimeBuyerRequired: true,
+    incomeLimits: [
+      { maxHouseholdSize: 2, amount: 121200 },
+      { maxHouseholdSize: null, amount: 141400 },
+    ],
+    assistance: { percentOfPrice: 0.06, maxAmount: null, structure: "second-mortgage" },
+    summary: "Up to 6% down payment assistance",
+  },
+  {
+    id: "ut-homeagain",
+    name: "Utah HomeAgain",
+    sponsor: "Utah Housing",
+    state: "UT",
+    loanProgram: "fha",
+    minCreditScore: 660,
+    firstTimeBuyerRequired: false,
+    incomeLimits: [
+      { maxHouseholdSize: null, amount: 141400 },
+    ],
+    assistance: { percentOfPrice: 0.06, maxAmount: null, structure: "second-mortgage" },
+    summary: "Down payment assistance available",
+  },
+];
+
+// Default registry when a tenant doesn't supply their own
+export const DEFAULT_ASSISTANCE_PROGRAMS: AssistanceProgram[] = UTAH_ASSISTANCE_PROGRAMS;
+
+// Programs that apply to a home in the given state (unknown state gets all of them)
+export function getProgramsForState(programs: AssistanceProgram[], state: string | null): AssistanceProgram[] {
+  if (!state) return programs;
+  return programs.filter((p) => p.state === null || p.state.toUpperCase() === state.toUpperCase());
+}
+
+// A household size we can match to an income bracket (a whole number of
+// people), or null
+export function knownHouseholdSize(householdSize: number | null | undefined): number | null {
+  return householdSize !== null && householdSize !== undefined && Number.isInteger(householdSize) && householdSize >= 1
+    ? householdSize
+    : null;
+}
+
+// Income limit for the household (unknown size gets the first, smallest-household
+// limit). AMI-based programs use the local AMI when we know it.
+export function getProgramIncomeLimit(
+  program: AssistanceProgram,
+  householdSize: number | null,
+  areaMedianIncome: number | null = null
+): number {
+  if (program.amiPercent && areaMedianIncome !== null) {
+    return Math.round(areaMedianIncome * program.amiPercent);
+  }
+
+  const limits = program.incomeLimits;
+  if (limits.length === 0) return Infinity;
+  const size = knownHouseholdSize(householdSize);
+  if (size === null) return limits[0].amount;
+
+  const match = limits.find((l) => l.maxHouseholdSize === null || size <= l.maxHouseholdSize);
+  return (match ?? limits[limits.length - 1]).amount;
+}
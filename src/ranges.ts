@@ -0,0 +1,77 @@
+// ============================================================================
+// INTAKE FORM RANGES
+// ============================================================================
+
+// Each intake-form range string and the representative value it's scored as
+
+// Credit score range to approximate score ("not-sure" is a known key scored as unknown)
+export const CREDIT_SCORE_RANGES: Record<string, number | null> = {
+  "below-580": 550,
+  "580-619": 600,
+  "620-659": 640,
+  "660-699": 680,
+  "700-739": 720,
+  "740-plus": 760,
+  "not-sure": null,
+};
+
+export const INCOME_RANGES: Record<string, number> = {
+  "under-40k": 35000,
+  "40k-60k": 50000,
+  "60k-80k": 70000,
+  "80k-100k": 90000,
+  "100k-150k": 125000,
+  "150k-180k": 165000,
+  "180k-220k": 200000,
+  "220k-plus": 250000,
+};
+
+export const PRICE_RANGES: Record<string, number> = {
+  "under-400k": 350000,
+  "400k-500k": 450000,
+  "500k-600k": 550000,
+  "600k-700k": 650000,
+  "700k-800k": 750000,
+  "800k-900k": 850000,
+  "900k-1m": 950000,
+  "1m-plus": 1200000,
+};
+
+export const DOWN_PAYMENT_RANGES: Record<string, number> = {
+  "under-10k": 5000,
+  "10k-25k": 17500,
+  "25k-50k": 37500,
+  "50k-75k": 62500,
+  "75k-100k": 87500,
+  "100k-140k": 120000,
+  "140k-180k": 160000,
+  "180k-220k": 200000,
+  "220k-260k": 240000,
+  "260k-plus": 300000,
+};
+
+export const MONTHLY_DEBT_RANGES: Record<string, number> = {
+  none: 0,
+  "under-250": 125,
+  "250-500": 375,
+  "500-1000": 750,
+  "1000-2000": 1500,
+  "2000-2500": 2250,
+  "2500-3000": 2750,
+  "3000-plus": 3500,
+};
+
+export const EMPLOYMENT_YEARS_RANGES: Record<string, number> = {
+  "under-1": 0.5,
+  "1-2": 1.5,
+  "2-5": 3.5,
+  "5-plus": 7,
+};
+
+// Veteran status values the intake form sends ("none" = not a veteran)
+export const VETERAN_STATUSES = ["active", "veteran", "guard-reserve", "spouse", "none"];
+
+// Whether a range string is one of a mapping's own keys
+export function isKnownRange(mapping: Record<string, unknown>, range: string): boolean {
+  return Object.prototype.hasOwnProperty.call(mapping, range);
+}
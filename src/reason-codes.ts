@@ -0,0 +1,66 @@
+import type { ReasonCode } from './types';
+
+// ============================================================================
+// REASON CODE CATALOG
+// ============================================================================
+
+// What each reason code means and the params it carries
+export const REASON_CODES: Record<ReasonCode, string> = {
+  // Conditions (gaps and primary blockers)
+  WAITING_PERIOD_FHA: "FHA waiting period after a bankruptcy, foreclosure or short sale hasn't ended (eligibleDate, monthsToGo, event)",
+  NO_QUALIFYING_INCOME: "No income counts toward qualifying, so DTI can't be measured (targetPrice)",
+  DTI_OVER_50: "Debt-to-income ratio at the target price is over 50% (dti, limit, targetPrice)",
+  DTI_OVER_43: "Debt-to-income ratio at the target price is over 43% (dti, limit, targetPrice)",
+  HOUSING_RATIO_OVER_LIMIT: "Housing payment alone is over the program's share of income (housingRatio, limit, targetPrice)",
+  HOUSING_RATIO_HIGH: "Housing payment alone takes a large share of income, even though total DTI is lower (housingRatio, limit, targetPrice)",
+  VA_RESIDUAL_INCOME_SHORT: "Income left after taxes, housing, debts and upkeep is below VA's residual income table (residualIncome, required, shortfall, region, familySize)",
+  DP_BELOW_PLAN_MIN: "Savings don't cover cash to close at the financing plan's minimum down payment (saved, required, shortfall, closingCosts, program, downPaymentPercent)",
+  DP_BELOW_FHA_MIN: "Deprecated, no longer emitted - see DP_BELOW_PLAN_MIN",
+  DP_BELOW_5_PERCENT: "Savings left after closing costs cover less than 5% down (saved, availableForDownPayment, downPaymentPercent, target)",
+  CREDIT_UNKNOWN: "Credit score wasn't provided",
+  CREDIT_BELOW_FHA_MIN: "Credit score is below 580, FHA's minimum for 3.5% down (creditScore)",
+  CREDIT_BELOW_CONVENTIONAL_MIN: "Credit score is below 620, the conventional minimum (creditScore)",
+  CREDIT_BELOW_ASSISTANCE_MIN: "Credit score is below the lowest minimum among down payment assistance programs (creditScore, targetScore)",
+  CREDIT_BELOW_660: "Deprecated, no longer emitted - see CREDIT_BELOW_ASSISTANCE_MIN",
+  CREDIT_BELOW_680: "Credit score is below 680 (creditScore)",
+  EMPLOYMENT_RECENT_GAP: "Back at work less than 6 months after a 6+ month employment gap (employmentYears, gapMonths)",
+  SELF_EMPLOYMENT_UNDER_2_YEARS: "Self-employed for less than 2 years (employmentYears)",
+  EMPLOYMENT_UNDER_2_YEARS: "Less than 2 years of employment history (employmentYears)",
+
+  // Solutions
+  VA_ELIGIBLE_SOONER: "VA's waiting period ends before FHA's (eligibleDate, monthsToGo)",
+  REBUILD_CREDIT_DURING_WAIT: "Rebuild credit until the waiting period ends (monthsToGo)",
+  SAVE_DURING_WAIT: "Build savings until the waiting period ends (monthsToGo)",
+  PRICE_FOR_43_DTI: "Lower the target price to reach 43% DTI (newPrice)",
+  PRICE_FOR_36_DTI: "Lower the target price to reach a comfortable 36% DTI (newPrice)",
+  PAY_DOWN_DEBT_FOR_43_DTI: "Reduce monthly debt payments to reach 43% DTI (debtReduction, lumpSum)",
+  INCREASE_INCOME_FOR_43_DTI: "Increase monthly income to reach 43% DTI (incomeIncrease)",
+  PRICE_FOR_HOUSING_RATIO: "Lower the target price to bring the housing payment within the program's cap (newPrice, housingRatio)",
+  INCREASE_INCOME_FOR_HOUSING_RATIO: "Raise monthly income to bring the housing payment within the program's cap (incomeIncrease, housingRatio)",
+  DOCUMENT_QUALIFYING_INCOME: "Add income lenders can count, or build the history variable income needs",
+  PRICE_FOR_VA_RESIDUAL_INCOME: "Lower the target price to meet VA's residual income requirement (newPrice)",
+  PAY_DOWN_DEBT_FOR_VA_RESIDUAL_INCOME: "Reduce monthly debt payments to meet VA's residual income requirement (debtReduction)",
+  INCREASE_INCOME_FOR_VA_RESIDUAL_INCOME: "Raise monthly income to meet VA's residual income requirement (incomeIncrease)",
+  VA_RESIDUAL_INCOME_COMPENSATES: "Residual income 20%+ over VA's table offsets DTI above 41% (residualIncome, required)",
+  FHA_ALLOWS_HIGHER_DTI: "FHA allows DTI up to 50% with compensating factors (maxDti)",
+  PRICE_FOR_SAVINGS: "Lower the target price so savings cover the minimum down payment and closing costs (newPrice)",
+  PRICE_FOR_5_PERCENT_DOWN: "Lower the target price so savings cover 5% down (newPrice)",
+  SAVE_FOR_PLAN_MIN: "Save the rest of the cash to close at the financing plan's minimum down payment (amount, monthlySavings, months, program, downPaymentPercent)",
+  SAVE_FOR_FHA_MIN: "Deprecated, no longer emitted - see SAVE_FOR_PLAN_MIN",
+  NEGOTIATE_SELLER_CONCESSIONS: "Ask the seller to pay closing costs, up to the program's concession cap (amount, cap)",
+  SAVE_FOR_5_PERCENT_DOWN: "Save up to 5% down (amount, monthlySavings, months)",
+  USDA_ZERO_DOWN: "USDA 0% down in eligible rural areas",
+  ASSISTANCE_AVAILABLE: "Qualifies for a registry down payment assistance program (programId, amount)",
+  FIRSTHOME_ASSISTANCE: "Deprecated, no longer emitted - see ASSISTANCE_AVAILABLE with programId \"ut-firsthome\"",
+  HOMEAGAIN_ASSISTANCE: "Deprecated, no longer emitted - see ASSISTANCE_AVAILABLE with programId \"ut-homeagain\"",
+  ASSISTANCE_UNAVAILABLE_FHA_AVAILABLE: "No down payment assistance, but FHA's low down payment is available (overIncomeLimit, belowMinCredit, incomeLimit)",
+  ASSISTANCE_REQUIREMENTS_NOT_MET: "Down payment assistance requirements not met (overIncomeLimit, belowMinCredit, incomeLimit)",
+  FHA_AVAILABLE_NOW: "Credit score qualifies for FHA today (creditScore)",
+  CONVENTIONAL_AVAILABLE_NOW: "Credit score qualifies for conventional loans today (creditScore)",
+  IMPROVE_CREDIT_TO_ASSISTANCE_MIN: "Raise credit to the lowest down payment assistance program minimum for assistance and better rates (targetScore, potentialAssistance)",
+  IMPROVE_CREDIT_TO_660: "Deprecated, no longer emitted - see IMPROVE_CREDIT_TO_ASSISTANCE_MIN",
+  IMPROVE_CREDIT_RATE_TIER: "Reach the next credit pricing tier for a lower rate and payment (targetScore, monthlySavings)",
+  BUILD_6_MONTHS_AFTER_GAP: "Reach 6 months at the current job after a gap (monthsToGo)",
+  BUILD_2_YEAR_HISTORY: "Build a 2-year employment or self-employment history (monthsToGo)",
+  SELF_EMPLOYED_1_YEAR_EXCEPTION: "Some lenders accept 1 year of self-employment with prior same-field work",
+};
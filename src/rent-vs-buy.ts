@@ -0,0 +1,143 @@
+import type {
+  ScoringConfig,
+  ScoreValuesInput,
+  FinancingPlan,
+  RentVsBuyInput,
+  RentVsBuyMonth,
+  RentVsBuyScenario,
+  RentVsBuyComparison,
+} from './types';
+import { buildAmortizationSchedule } from './amortization';
+import { calculateScoreFromValues, selectFinancingPlan } from './calculator';
+import { estimateClosingCosts } from './closing';
+import { calculatePaymentBreakdown, resolveConfig } from './payment';
+
+// ============================================================================
+// RENT VS BUY
+// ============================================================================
+
+// Assumptions used when the caller doesn't provide them
+const RENT_VS_BUY_DEFAULTS = {
+  holdingPeriodYears: 7,
+  rentGrowthRate: 0.03,
+  appreciationRate: 0.03,
+  investmentReturnRate: 0.05,
+  maintenanceRate: 0.01,
+  sellingCostRate: 0.06,
+};
+
+// Fill in any assumptions the caller didn't provide
+function resolveRentVsBuyAssumptions(input: RentVsBuyInput): typeof RENT_VS_BUY_DEFAULTS {
+  const years = input.holdingPeriodYears;
+  return {
+    // A missing or non-positive holding period would leave nothing to compare
+    holdingPeriodYears: Number.isFinite(years) && years > 0 ? years : RENT_VS_BUY_DEFAULTS.holdingPeriodYears,
+    rentGrowthRate: input.rentGrowthRate ?? RENT_VS_BUY_DEFAULTS.rentGrowthRate,
+    appreciationRate: input.appreciationRate ?? RENT_VS_BUY_DEFAULTS.appreciationRate,
+    investmentReturnRate: input.investmentReturnRate ?? RENT_VS_BUY_DEFAULTS.investmentReturnRate,
+    maintenanceRate: input.maintenanceRate ?? RENT_VS_BUY_DEFAULTS.maintenanceRate,
+    sellingCostRate: input.sellingCostRate ?? RENT_VS_BUY_DEFAULTS.sellingCostRate,
+  };
+}
+
+// Simulate renting vs buying at one price, month by month.
+// Both sides start with the same cash: the buyer spends it on the down
+// payment and closing costs, the renter invests it. Each month, whichever
+// side has the lower housing cost invests the difference.
+function simulateRentVsBuy(
+  price: number,
+  plan: FinancingPlan,
+  rentInput: RentVsBuyInput,
+  config: ScoringConfig
+): RentVsBuyScenario {
+  const assumptions = resolveRentVsBuyAssumptions(rentInput);
+  const months = Math.max(1, Math.round(assumptions.holdingPeriodYears * 12));
+  const schedule = buildAmortizationSchedule(price, plan.downPaymentPercent, config, plan.profile, {
+    appreciationRate: assumptions.appreciationRate,
+  });
+
+  const monthlyReturn = Math.pow(1 + assumptions.investmentReturnRate, 1 / 12) - 1;
+  // Closing costs come from the same model as the score's cash to close,
+  // unless the caller sets a flat rate
+  const closingCosts = rentInput.closingCostRate !== undefined
+    ? price * rentInput.closingCostRate
+    : estimateClosingCosts(
+      price,
+      calculatePaymentBreakdown(price, plan.downPaymentPercent, config, plan.profile),
+      resolveConfig(config, plan.profile.location).closingCosts
+    ).total;
+  const upfrontCash = schedule.downPayment + closingCosts;
+  const escrow = schedule.rows[0]?.escrow ?? 0;
+
+  let renterPortfolio = upfrontCash;
+  let buyerPortfolio = 0;
+  let cumulativeRentCost = 0;
+  let cumulativeBuyCost = upfrontCash;
+  let breakEvenMonth: number | null = null;
+  const history: RentVsBuyMonth[] = [];
+
+  for (let month = 1; month <= months; month++) {
+    const row = schedule.rows[month - 1];
+    const homeValue = price * Math.pow(1 + assumptions.appreciationRate, month / 12);
+    const balance = row ? row.balance : 0;
+    // After payoff, owners still pay taxes and insurance
+    const payment = row ? row.payment : escrow;
+
+    const rent = rentInput.monthlyRent * Math.pow(1 + assumptions.rentGrowthRate, Math.floor((month - 1) / 12));
+    const ownershipCost = payment + (homeValue * assumptions.maintenanceRate) / 12;
+
+    renterPortfolio = renterPortfolio * (1 + monthlyReturn) + Math.max(0, ownershipCost - rent);
+    buyerPortfolio = buyerPortfolio * (1 + monthlyReturn) + Math.max(0, rent - ownershipCost);
+    cumulativeRentCost += rent;
+    cumulativeBuyCost += ownershipCost;
+
+    const buyerNetWorth = homeValue * (1 - assumptions.sellingCostRate) - balance + buyerPortfolio;
+    const renterNetWorth = renterPortfolio;
+    if (breakEvenMonth === null && buyerNetWorth >= renterNetWorth) {
+      breakEvenMonth = month;
+    }
+
+    history.push({
+      month,
+      rent,
+      ownershipCost,
+      cumulativeRentCost,
+      cumulativeBuyCost,
+      renterNetWorth,
+      buyerNetWorth,
+    });
+  }
+
+  const last = history[history.length - 1];
+  return {
+    price,
+    monthlyPayment: Math.round(schedule.monthlyPayment),
+    upfrontCash: Math.round(upfrontCash),
+    breakEvenMonth,
+    cumulativeRentCost: Math.round(last.cumulativeRentCost),
+    cumulativeBuyCost: Math.round(last.cumulativeBuyCost),
+    renterNetWorth: Math.round(last.renterNetWorth),
+    buyerNetWorth: Math.round(last.buyerNetWorth),
+    advantage: last.buyerNetWorth >= last.renterNetWorth ? "buy" : "rent",
+    months: history,
+  };
+}
+
+/**
+ * Compare renting with buying at the buyer's target price and at their
+ * sweet spot, using the payment model the score is built on.
+ */
+export function compareRentVsBuy(
+  input: ScoreValuesInput,
+  rentInput: RentVsBuyInput,
+  config: ScoringConfig = {}
+): RentVsBuyComparison {
+  const result = calculateScoreFromValues(input, config);
+  const plan = selectFinancingPlan(input, config);
+
+  return {
+    plan,
+    atTargetPrice: simulateRentVsBuy(result.parsedValues.targetPrice, plan, rentInput, config),
+    atSweetSpot: simulateRentVsBuy(result.sweetSpot.recommendedPrice, plan, rentInput, config),
+  };
+}
@@ -0,0 +1,116 @@
+import type {
+  ResidualIncome,
+  VaRegion,
+} from './types';
+
+// ============================================================================
+// VA RESIDUAL INCOME
+// ============================================================================
+
+export const VA_REGIONS: VaRegion[] = ["northeast", "midwest", "south", "west"];
+
+// VA's regions by state
+const STATE_VA_REGIONS: Record<string, VaRegion> = {
+  CT: "northeast", ME: "northeast", MA: "northeast", NH: "northeast", NJ: "northeast",
+  NY: "northeast", PA: "northeast", RI: "northeast", VT: "northeast",
+  IL: "midwest", IN: "midwest", IA: "midwest", KS: "midwest", MI: "midwest", MN: "midwest",
+  MO: "midwest", NE: "midwest", ND: "midwest", OH: "midwest", SD: "midwest", WI: "midwest",
+  AL: "south", AR: "south", DE: "south", DC: "south", FL: "south", GA: "south", KY: "south",
+  LA: "south", MD: "south", MS: "south", NC: "south", OK: "south", PR: "south", SC: "south",
+  TN: "south", TX: "south", VA: "south", WV: "south",
+  AK: "west", AZ: "west", CA: "west", CO: "west", HI: "west", ID: "west", MT: "west",
+  NV: "west", NM: "west", OR: "west", UT: "west", WA: "west", WY: "west",
+};
+
+// Minimum residual income by region for families of 1-5, plus an amount for
+// each member beyond five. Loans of $80k and up use the higher table.
+const RESIDUAL_INCOME_TABLES = {
+  smallLoan: {
+    byRegion: {
+      northeast: [390, 654, 788, 888, 921],
+      midwest: [382, 641, 772, 868, 902],
+      south: [382, 641, 772, 868, 902],
+      west: [425, 713, 859, 967, 1004],
+    } as Record<VaRegion, number[]>,
+    perAdditionalMember: 75,
+  },
+  largeLoan: {
+    byRegion: {
+      northeast: [450, 755, 909, 1025, 1062],
+      midwest: [441, 738, 889, 1003, 1039],
+      south: [441, 738, 889, 1003, 1039],
+      west: [491, 823, 990, 1117, 1158],
+    } as Record<VaRegion, number[]>,
+    perAdditionalMember: 80,
+  },
+};
+const LARGE_LOAN_AMOUNT = 80000;
+
+// Above 41% DTI, VA wants residual income 20% over the table
+const VA_DTI_THRESHOLD = 41;
+const HIGH_DTI_RESIDUAL_FACTOR = 1.2;
+
+// Federal, state and payroll taxes as a share of gross income
+export const ESTIMATED_TAX_RATE = 0.22;
+
+// VA's maintenance and utilities estimate ($0.14 per square foot) for a
+// typical 1,800 sq ft home
+const MAINTENANCE_PER_SQUARE_FOOT = 0.14;
+const ASSUMED_SQUARE_FEET = 1800;
+
+// The buyer's VA region: the one they gave, else their state's, else the
+// West (the strictest table)
+export function getVaRegion(region: VaRegion | null | undefined, state: string | null | undefined): VaRegion {
+  if (region && VA_REGIONS.includes(region)) return region;
+  return (state && STATE_VA_REGIONS[state.toUpperCase()]) || "west";
+}
+
+// VA's table minimum for a region, family size and loan amount
+function getRequiredResidual(region: VaRegion, familySize: number, loanAmount: number): number {
+  const table = loanAmount >= LARGE_LOAN_AMOUNT ? RESIDUAL_INCOME_TABLES.largeLoan : RESIDUAL_INCOME_TABLES.smallLoan;
+  const amounts = table.byRegion[region];
+  const size = Math.max(1, Math.round(familySize));
+  return size <= amounts.length
+    ? amounts[size - 1]
+    : amounts[amounts.length - 1] + (size - amounts.length) * table.perAdditionalMember;
+}
+
+/**
+ * VA residual income: what's left of gross monthly income after estimated
+ * taxes, the housing payment, other debts and maintenance, compared with
+ * VA's table for the region, family size and loan amount. Above 41% DTI the
+ * requirement goes up 20%. Family size defaults to 1.
+ */
+export function calculateResidualIncome(
+  monthlyIncome: number,
+  monthlyDebts: number,
+  housingPayment: number,
+  loanAmount: number,
+  familySize: number | null,
+  region: VaRegion
+): ResidualIncome {
+  const size = familySize && familySize > 0 ? familySize : 1;
+  const estimatedTaxes = monthlyIncome * ESTIMATED_TAX_RATE;
+  const maintenance = ASSUMED_SQUARE_FEET * MAINTENANCE_PER_SQUARE_FOOT;
+  const residualIncome = monthlyIncome - estimatedTaxes - housingPayment - monthlyDebts - maintenance;
+  const dti = monthlyIncome > 0 ? Math.round(((housingPayment + monthlyDebts) / monthlyIncome) * 100) : 0;
+  const required = getRequiredResidual(region, size, loanAmount);
+  const requiredWithDti = dti > VA_DTI_THRESHOLD ? Math.round(required * HIGH_DTI_RESIDUAL_FACTOR) : required;
+
+  return {
+    region,
+    familySize: size,
+    loanAmount: Math.round(loanAmount),
+    monthlyIncome: Math.round(monthlyIncome),
+    estimatedTaxes: Math.round(estimatedTaxes),
+    housingPayment: Math.round(housingPayment),
+    monthlyDebts: Math.round(monthlyDebts),
+    maintenance: Math.round(maintenance),
+    residualIncome: Math.round(residualIncome),
+    required,
+    dti,
+    requiredWithDti,
+    shortfall: Math.max(0, Math.round(requiredWithDti - residualIncome)),
+    meetsRequirement: residualIncome >= requiredWithDti,
+  };
+}
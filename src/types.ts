@@ -1,5 +1,9 @@
 export type ScoreStatus = "READY_NOW" | "ALMOST_READY" | "GETTING_CLOSE" | "BUILDING" | "EARLY_STAGE" | "JUST_EXPLORING";
 
+// How the borrower earns their income
+// - "job-change-same-field": recently changed employers but stayed in the same line of work
+export type EmploymentType = "w2" | "self-employed" | "retired" | "job-change-same-field";
+
 export interface ScoreInput {
   creditScoreRange: string | null;
   annualIncome: string | null;
@@ -10,9 +14,29 @@ export interface ScoreInput {
   veteranStatus: string | null;
   // Phase 2 fields (optional for backward compatibility)
   employmentYears?: string | null;
+  employmentType?: EmploymentType | null;
+  employmentGapMonths?: number | null; // Longest gap in the last 2 years
   utahResident?: boolean | null;
   utahResidencyYears?: string | null;
+  propertyState?: string | null; // Two-letter state where they're buying (selects assistance programs)
+  location?: string | null;      // County or ZIP where they're buying (local taxes, loan limits and AMI)
   ruralInterest?: boolean | null;
+  householdSize?: number | null; // People in the household (drives program income limits and VA residual income)
+  vaRegion?: VaRegion | null;    // VA residual income region (defaults from the state)
+  debts?: DebtItem[] | null;     // Itemized debts - replaces the monthlyDebts range when given
+  incomeSources?: IncomeSource[] | null; // Income with history - replaces the annualIncome range when given
+  derogatoryEvents?: DerogatoryEvent[] | null;
+  asOfDate?: string | null; // ISO date to evaluate waiting periods against (defaults to today)
+  vaSubsequentUse?: boolean | null;    // Used a VA loan before (higher funding fee)
+  vaFundingFeeExempt?: boolean | null;
+  vaDisabilityRating?: number | null;  // Service-connected disability rating, 0-100 (10%+ waives the funding fee)
+  vaRemainingEntitlement?: number | null; // Entitlement left while a prior VA loan is still active
+  giftFunds?: number | null;           // Gift money from family toward closing
+  sellerConcessions?: number | null;   // Closing costs the seller has agreed to pay
+  downPaymentAssistance?: number | null; // DPA proceeds the buyer has been approved for
+  monthlySavings?: number | null;      // Monthly savings capacity (defaults to $500)
+  monthlyDebtPaydown?: number | null;  // Extra paid toward debt balances each month
+  expectedAnnualRaise?: number | null; // Expected yearly raise (0.03 = 3%)
 }
 
 export interface ScoreBreakdown {
@@ -25,8 +49,92 @@ export interface ScoreBreakdown {
   penalty: number;
 }
 
+// ============================================================================
+// REASON CODES
+// ============================================================================
+
+// Stable machine-readable codes for integrations (CRM automations, analytics).
+// Copy can change; codes don't. See REASON_CODES for descriptions.
+
+// What's holding the buyer back (gaps and primary blockers)
+export type ConditionCode =
+  | "WAITING_PERIOD_FHA"
+  | "NO_QUALIFYING_INCOME"
+  | "DTI_OVER_50"
+  | "DTI_OVER_43"
+  | "HOUSING_RATIO_OVER_LIMIT"
+  | "HOUSING_RATIO_HIGH"
+  | "VA_RESIDUAL_INCOME_SHORT"
+  | "DP_BELOW_PLAN_MIN"
+  // Deprecated: no longer emitted - see DP_BELOW_PLAN_MIN, which names the
+  // program. Kept so existing integrations compile.
+  | "DP_BELOW_FHA_MIN"
+  | "DP_BELOW_5_PERCENT"
+  | "CREDIT_UNKNOWN"
+  | "CREDIT_BELOW_FHA_MIN"
+  | "CREDIT_BELOW_CONVENTIONAL_MIN"
+  | "CREDIT_BELOW_ASSISTANCE_MIN"
+  // Deprecated: no longer emitted - see CREDIT_BELOW_ASSISTANCE_MIN, whose
+  // targetScore carries the minimum. Kept so existing integrations compile.
+  | "CREDIT_BELOW_660"
+  | "CREDIT_BELOW_680"
+  | "EMPLOYMENT_RECENT_GAP"
+  | "SELF_EMPLOYMENT_UNDER_2_YEARS"
+  | "EMPLOYMENT_UNDER_2_YEARS";
+
+// What the buyer can do about it (solutions)
+export type SolutionCode =
+  | "VA_ELIGIBLE_SOONER"
+  | "REBUILD_CREDIT_DURING_WAIT"
+  | "SAVE_DURING_WAIT"
+  | "PRICE_FOR_43_DTI"
+  | "PRICE_FOR_36_DTI"
+  | "PAY_DOWN_DEBT_FOR_43_DTI"
+  | "INCREASE_INCOME_FOR_43_DTI"
+  | "PRICE_FOR_HOUSING_RATIO"
+  | "INCREASE_INCOME_FOR_HOUSING_RATIO"
+  | "DOCUMENT_QUALIFYING_INCOME"
+  | "PRICE_FOR_VA_RESIDUAL_INCOME"
+  | "PAY_DOWN_DEBT_FOR_VA_RESIDUAL_INCOME"
+  | "INCREASE_INCOME_FOR_VA_RESIDUAL_INCOME"
+  | "VA_RESIDUAL_INCOME_COMPENSATES"
+  | "NEGOTIATE_SELLER_CONCESSIONS"
+  | "FHA_ALLOWS_HIGHER_DTI"
+  | "PRICE_FOR_SAVINGS"
+  | "PRICE_FOR_5_PERCENT_DOWN"
+  | "SAVE_FOR_PLAN_MIN"
+  // Deprecated: no longer emitted - see SAVE_FOR_PLAN_MIN. Kept so existing
+  // integrations compile.
+  | "SAVE_FOR_FHA_MIN"
+  | "SAVE_FOR_5_PERCENT_DOWN"
+  | "USDA_ZERO_DOWN"
+  | "ASSISTANCE_AVAILABLE"
+  // Deprecated: no longer emitted - Utah programs now come through
+  // ASSISTANCE_AVAILABLE with a programId. Kept so existing integrations compile.
+  | "FIRSTHOME_ASSISTANCE"
+  | "HOMEAGAIN_ASSISTANCE"
+  | "ASSISTANCE_UNAVAILABLE_FHA_AVAILABLE"
+  | "ASSISTANCE_REQUIREMENTS_NOT_MET"
+  | "FHA_AVAILABLE_NOW"
+  | "CONVENTIONAL_AVAILABLE_NOW"
+  | "IMPROVE_CREDIT_TO_ASSISTANCE_MIN"
+  // Deprecated: no longer emitted - see IMPROVE_CREDIT_TO_ASSISTANCE_MIN.
+  // Kept so existing integrations compile.
+  | "IMPROVE_CREDIT_TO_660"
+  | "IMPROVE_CREDIT_RATE_TIER"
+  | "BUILD_6_MONTHS_AFTER_GAP"
+  | "BUILD_2_YEAR_HISTORY"
+  | "SELF_EMPLOYED_1_YEAR_EXCEPTION";
+
+export type ReasonCode = ConditionCode | SolutionCode;
+
+// Values behind a reason code (amounts in dollars, percentages as 0-100)
+export type ReasonParams = Record<string, string | number | boolean | null>;
+
 export interface Gap {
   factor: string;
+  code: ConditionCode;
+  params: ReasonParams;
   severity: "high" | "medium" | "low";
   current: string;
   target: string;
@@ -37,6 +145,7 @@ export interface Gap {
 
 export interface Recommendation {
   priority: number;
+  code: ConditionCode; // Code of the gap this addresses
   category: string;
   title: string;
   description: string;
@@ -50,10 +159,12 @@ export interface ProgramDetail {
   benefit: string;
 }
 
-export type BlockerType = 'DTI' | 'DOWN_PAYMENT' | 'CREDIT' | 'EMPLOYMENT' | 'RESERVES' | 'NONE';
+export type BlockerType = 'DTI' | 'INCOME' | 'DOWN_PAYMENT' | 'CREDIT' | 'EMPLOYMENT' | 'RESERVES' | 'NONE';
 
 export interface Solution {
-  type: 'ADJUST_PRICE' | 'PAY_DOWN_DEBT' | 'INCREASE_INCOME' | 'SAVE_MORE' | 'IMPROVE_CREDIT' | 'DPA_PROGRAMS' | 'COMBINATION';
+  type: 'ADJUST_PRICE' | 'PAY_DOWN_DEBT' | 'INCREASE_INCOME' | 'SAVE_MORE' | 'IMPROVE_CREDIT' | 'DPA_PROGRAMS' | 'SELLER_CONCESSIONS' | 'BUILD_HISTORY' | 'COMBINATION';
+  code: SolutionCode;
+  params: ReasonParams;
   description: string;
   impact: string;
   timeline?: string;
@@ -65,12 +176,15 @@ export interface Solution {
   monthlyPayment?: number;
   // For debt paydown:
   debtReduction?: number;
+  payoffPlan?: DebtPayoffPlan; // When debts are itemized
   // For income increase:
   incomeIncrease?: number;
 }
 
 export interface PrimaryBlocker {
   type: BlockerType;
+  code: ConditionCode;
+  params: ReasonParams;
   severity: 'critical' | 'significant' | 'minor';
   headline: string;
   subheadline: string;
@@ -86,7 +200,8 @@ export interface SweetSpot {
   timelineAtPrice: string;
   monthlyPayment: number;
   downPaymentNeeded: number;
-  dtiAtPrice: number;
+  dtiAtPrice: number | null;      // null without qualifying income
+  housingRatioAtPrice: number | null;
   whyThisWorks: string;
   comparedToTarget: {
     priceDifference: number;
@@ -124,6 +239,15 @@ export interface ScoreResult {
   primaryBlocker: PrimaryBlocker | null;
   sweetSpot: SweetSpot;
   pathToGoal: PathToGoal | null;
+  readiness: ReadinessProjection;
+  location: LocationSummary | null; // Present when the location matched a county we have data for
+  qualifyingDebts: QualifyingDebts | null; // Present when debts were itemized
+  qualifyingIncome: QualifyingIncome | null; // Present when income sources were given
+  representativeScore: RepresentativeCreditScore | null; // How the credit score used was chosen
+  vaResidualIncome: ResidualIncome | null; // Present when payments are modeled on a VA loan
+  cashToClose: CashToClose;  // Funds due at closing on the financing plan, and what's left after
+  defaultedFields: string[]; // Input fields that were missing or unrecognized and scored on an assumed value
+  trace?: ScoreTrace;        // Present when scored with { trace: true }
   // Parsed values for components
   parsedValues: {
     creditScore: number | null;
@@ -132,35 +256,57 @@ export interface ScoreResult {
     monthlyDebts: number;
     targetPrice: number;
     savedAmount: number;
-    currentDti: number;
+    currentDti: number | null;     // null without qualifying income
+    housingRatio: number | null;   // Housing payment alone as a share of income
+    paymentProgram: PaymentProgram;
   };
 }
 
+// Which ratio caps a budget: total DTI, or the housing payment alone
+export type LimitingRatio = "dti" | "housing-ratio";
+
+// The most a buyer can pay within a DTI and an optional housing-ratio cap
+export interface PriceLimit {
+  maxPrice: number;
+  dti: number;
+  housingRatio: number | null;   // null when the program doesn't cap it
+  limitedBy: LimitingRatio;
+  explanation: string;
+}
+
 export interface AffordabilityResult {
   comfortable: {
     maxPrice: number;
     maxPayment: number;
     dti: number;
+    housingRatio: number | null;
+    limitedBy: LimitingRatio;
+    explanation: string;
   };
   stretch: {
     maxPrice: number;
     maxPayment: number;
     dti: number;
+    housingRatio: number | null;
+    limitedBy: LimitingRatio;
+    explanation: string;
   };
   atTargetPrice: {
     payment: number;
-    dti: number;
+    dti: number | null;           // null without qualifying income
+    housingRatio: number | null;
   };
   monthlyIncome: number;
   monthlyDebts: number;
-  currentRate: number;
+  currentRate: number;            // Note rate at the target price, in percent
+  program: PaymentProgram | null; // Payment model used (null = generic estimate)
 }
 
 export interface DPAEligibility {
-  firstHome: { eligible: boolean; reason: string; benefit: string };
-  homeAgain: { eligible: boolean; reason: string; benefit: string };
+  assistance: AssistanceEligibility[]; // One per registry program that applies in the buyer's state
   fha: { eligible: boolean; reason: string; benefit: string };
-  va: { eligible: boolean; reason: string; benefit: string };
+  va: { eligible: boolean; reason: string; benefit: string; loanTerms: VaLoanTerms | null };
+  usda: { eligible: boolean; reason: string; benefit: string };
   anyEligible: boolean;
   bestProgram: string | null;
   totalPotentialAssistance: number;
@@ -168,14 +314,673 @@ export interface DPAEligibility {
 
 export interface ScoreValuesInput {
   creditScore: number | null;
+  creditScores?: number[] | null; // Up to three bureau scores - replaces creditScore when given
   annualIncome: number;
   monthlyDebts: number;
   targetHomePrice: number;
   savedForDownPayment: number;
   firstTimeBuyer: boolean;
   veteranStatus: string | null;
+  // Employment (optional - missing data assumes stable 2+ year history)
+  employmentYears?: number | null;
+  employmentType?: EmploymentType | null;
+  employmentGapMonths?: number | null;
+  // Location preferences (optional)
+  utahResident?: boolean | null;
+  ruralInterest?: boolean | null;
+  householdSize?: number | null;
+  propertyState?: string | null;
+  location?: string | null;
+  vaRegion?: VaRegion | null;
+  // Itemized debts (optional - replaces monthlyDebts, counted per program rules)
+  debts?: DebtItem[] | null;
+  // Income sources (optional - replaces annualIncome with lender-qualifying income)
+  incomeSources?: IncomeSource[] | null;
+  // Credit history (optional)
+  derogatoryEvents?: DerogatoryEvent[] | null;
+  asOfDate?: string | null;
+  // VA funding fee and entitlement (optional)
+  vaSubsequentUse?: boolean | null;
+  vaFundingFeeExempt?: boolean | null;
+  vaDisabilityRating?: number | null;
+  vaRemainingEntitlement?: number | null;
+  // Other funds toward closing (optional)
+  giftFunds?: number | null;
+  sellerConcessions?: number | null;
+  downPaymentAssistance?: number | null;
+  // Savings capacity for readiness projections (optional)
+  monthlySavings?: number | null;
+  monthlyDebtPaydown?: number | null;
+  expectedAnnualRaise?: number | null;
   // Co-borrower (optional)
   coBorrowerCreditScore?: number | null;
+  coBorrowerCreditScores?: number[] | null;
   coBorrowerAnnualIncome?: number;
   coBorrowerMonthlyDebts?: number;
 }
+
+// Market assumptions used for payment math. Every field is optional;
+// anything omitted falls back to DEFAULT_SCORING_CONFIG.
+export interface ScoringConfig {
+  rate?: number;              // Annual par rate for top-tier credit (0.06 = 6.0%)
+  termYears?: number;         // Loan term in years
+  propertyTaxRate?: number;   // Annual property tax as a fraction of price (wins over the location's rate)
+  monthlyInsurance?: number;  // Homeowner's insurance per month
+  pmiRate?: number;           // Annual mortgage insurance as a fraction of loan amount
+  assistancePrograms?: AssistanceProgram[]; // Down payment assistance registry (defaults to Utah)
+  locations?: LocationData[];   // County data for location lookups (defaults to our Utah markets)
+  creditScorePolicy?: CreditScorePolicy; // How borrowers' scores combine on conventional loans (defaults to "lowest-middle")
+  ratePricing?: RatePricingGrid; // Rate add-ons by program, LTV and credit tier
+  closingCosts?: ClosingCostModel; // Closing cost, prepaid and escrow assumptions
+}
+
+// Loan programs with their own underwriting rules
+export type LoanProgram = "fha" | "va" | "conventional";
+
+export type DerogatoryEventType =
+  | "bankruptcy-ch7"
+  | "bankruptcy-ch13"
+  | "foreclosure"
+  | "short-sale"
+  | "collection"
+  | "late-30"
+  | "late-60"
+  | "late-90";
+
+export interface DerogatoryEvent {
+  type: DerogatoryEventType;
+  date: string;     // ISO date: discharge date for bankruptcies, completion date for foreclosures/short sales, reported date otherwise
+  amount?: number;  // Collections: outstanding balance
+  paid?: boolean;   // Collections: paid or settled
+}
+
+export interface ProgramWaitingPeriod {
+  eligibleNow: boolean;
+  eligibleDate: string | null;                // ISO date the last waiting period ends (null if none apply)
+  blockingEvent: DerogatoryEventType | null;  // Event with the latest end date
+}
+
+export interface WaitingPeriodStatus {
+  fha: ProgramWaitingPeriod;
+  va: ProgramWaitingPeriod;
+  conventional: ProgramWaitingPeriod;
+  usda: ProgramWaitingPeriod;
+}
+
+// Payment models: the loan programs plus USDA Rural Development
+export type PaymentProgram = LoanProgram | "usda";
+
+// Borrower details a program's payment model depends on
+export interface PaymentProfile {
+  program: PaymentProgram;
+  creditScore?: number | null;         // Rate pricing tier (and conventional PMI tier)
+  vaSubsequentUse?: boolean | null;    // VA funding fee is higher after first use
+  vaFundingFeeExempt?: boolean | null; // Service-connected disability waives the funding fee
+  location?: string | null;            // County or ZIP - uses the local property tax rate unless the config sets one
+}
+
+// The program and down payment a buyer's payments are modeled on
+export interface FinancingPlan {
+  profile: PaymentProfile;
+  downPaymentPercent: number;
+}
+
+// Rate add-ons for one LTV band, keyed by minimum credit score
+// (0.0025 = +0.25%). Scores below the lowest tier use its add-on.
+export interface RateAdjustmentBand {
+  minLtv: number;                    // Applies to LTVs above this
+  adjustments: Record<number, number>;
+}
+
+// Bands per program, highest LTV first
+export type RatePricingGrid = Record<PaymentProgram, RateAdjustmentBand[]>;
+
+export interface PaymentBreakdown {
+  program: PaymentProgram | null;  // null for the generic flat-PMI estimate
+  rate: number;                    // Note rate after credit pricing
+  baseLoanAmount: number;          // Price minus down payment
+  loanAmount: number;              // Including any financed upfront fee
+  upfrontFee: number;              // FHA UFMIP, VA funding fee or USDA guarantee fee
+  principalAndInterest: number;
+  propertyTax: number;
+  insurance: number;
+  mortgageInsurance: number;       // Monthly MIP, PMI or USDA annual fee
+  mortgageInsuranceMonths: number; // Months until mortgage insurance ends (0 if none)
+  total: number;
+}
+
+export interface AmortizationOptions {
+  extraMonthlyPrincipal?: number;                       // Added to every payment
+  extraPayments?: { month: number; amount: number }[];  // One-time principal payments
+  appreciationRate?: number;                            // Annual home value growth (0.03 = 3%)
+}
+
+export interface AmortizationRow {
+  month: number;
+  payment: number;            // Everything paid this month, including extra principal
+  principal: number;          // Scheduled principal
+  extraPrincipal: number;
+  interest: number;
+  escrow: number;             // Property tax + insurance
+  mortgageInsurance: number;
+  balance: number;            // Remaining balance after this payment
+  homeValue: number;
+  equity: number;
+}
+
+export interface AmortizationSchedule {
+  price: number;
+  downPayment: number;
+  loanAmount: number;
+  program: PaymentProgram | null;
+  monthlyPayment: number;                    // Scheduled payment in month 1 (matches estimateMonthlyPayment)
+  mortgageInsuranceEndsMonth: number | null; // Last month mortgage insurance is paid (null if none)
+  payoffMonth: number;
+  totalInterest: number;
+  totalMortgageInsurance: number;
+  rows: AmortizationRow[];
+}
+
+// Schedules at the buyer's target price and sweet spot, on the same financing plan
+export interface SweetSpotAmortization {
+  plan: FinancingPlan;
+  target: AmortizationSchedule;
+  sweetSpot: AmortizationSchedule;
+}
+
+export interface RentVsBuyInput {
+  monthlyRent: number;
+  holdingPeriodYears: number;     // Years until selling (default 7 when missing or invalid)
+  rentGrowthRate?: number;        // Annual rent increase (default 3%)
+  appreciationRate?: number;      // Annual home value growth (default 3%)
+  investmentReturnRate?: number;  // Annual return on cash not tied up in the home (default 5%)
+  maintenanceRate?: number;       // Annual upkeep as a fraction of home value (default 1%)
+  closingCostRate?: number;       // Flat buyer closing costs as a fraction of price (default: the closing cost model)
+  sellingCostRate?: number;       // Agent and closing costs when selling (default 6%)
+}
+
+export interface RentVsBuyMonth {
+  month: number;
+  rent: number;
+  ownershipCost: number;          // Payment (PITI + MI) plus maintenance
+  cumulativeRentCost: number;
+  cumulativeBuyCost: number;      // Includes down payment and closing costs
+  renterNetWorth: number;
+  buyerNetWorth: number;          // Home equity after selling costs plus invested savings
+}
+
+export interface RentVsBuyScenario {
+  price: number;
+  monthlyPayment: number;
+  upfrontCash: number;            // Down payment plus closing costs
+  breakEvenMonth: number | null;  // First month buying comes out ahead (null if not within the holding period)
+  cumulativeRentCost: number;
+  cumulativeBuyCost: number;
+  renterNetWorth: number;
+  buyerNetWorth: number;
+  advantage: "buy" | "rent";
+  months: RentVsBuyMonth[];
+}
+
+export interface RentVsBuyComparison {
+  plan: FinancingPlan;
+  atTargetPrice: RentVsBuyScenario;
+  atSweetSpot: RentVsBuyScenario;
+}
+
+export interface FactorChange {
+  factor: keyof ScoreBreakdown;
+  previous: number;
+  current: number;
+  change: number;
+}
+
+export interface ScoreDiff {
+  previousTotal: number;
+  currentTotal: number;
+  totalChange: number;
+  previousStatus: ScoreStatus;
+  currentStatus: ScoreStatus;
+  statusDirection: "improved" | "declined" | "unchanged";
+  factorChanges: FactorChange[];   // Only factors that moved, biggest first
+  gapsClosed: Gap[];
+  gapsOpened: Gap[];
+  blocker: {
+    previous: BlockerType;
+    current: BlockerType;
+    changed: boolean;
+  };
+  sweetSpot: {
+    previousPrice: number;
+    currentPrice: number;
+    priceChange: number;
+    previousPayment: number;
+    currentPayment: number;
+    paymentChange: number;
+  };
+  messages: string[];              // Client-facing summary, most important first
+}
+
+// One month of a readiness projection
+export interface ReadinessMonth {
+  month: number;          // 0 = today
+  date: string;           // ISO date
+  total: number;
+  status: ScoreStatus;
+  annualIncome: number;
+  monthlyDebts: number;
+  saved: number;
+  dti: number | null;     // At the target price (null without qualifying income)
+  downPaymentNeeded: number;
+  cashShortfall: number;  // Cash to close still uncovered at the target price
+}
+
+export interface ProjectedMilestone {
+  month: number;
+  date: string;
+}
+
+export interface ReadinessProjection {
+  months: ReadinessMonth[];
+  // First month the client reaches each status (or better); null if not within the projection
+  statusDates: Record<ScoreStatus, ProjectedMilestone | null>;
+}
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+export type ValidationCode =
+  | "UNKNOWN_RANGE"           // Range string the intake form mapping doesn't know
+  | "INVALID_NUMBER"          // NaN or infinite
+  | "INVALID_PRICE"           // Home price that isn't a finite amount above zero
+  | "NEGATIVE_VALUE"
+  | "UNKNOWN_VETERAN_STATUS"
+  | "OUT_OF_RANGE"            // A valid number that's implausible (e.g. a 950 credit score)
+  | "INVALID_DATE"
+  | "UNKNOWN_DEBT_TYPE"
+  | "UNKNOWN_INCOME_TYPE"
+  | "UNKNOWN_EVENT_TYPE"
+  | "TOO_MANY_SCORES"         // More than three bureau scores for a borrower
+  | "UNKNOWN_VA_REGION";
+
+export interface ValidationIssue {
+  field: string;
+  code: ValidationCode;
+  message: string;
+  value: unknown;
+}
+
+export interface ValidationResult {
+  valid: boolean;              // No errors (warnings don't count)
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  defaultedFields: string[];   // Fields that will be scored on an assumed value
+}
+
+export interface ScoreOptions {
+  strict?: boolean; // Throw a ScoreInputError on invalid input instead of scoring on defaults
+  trace?: boolean;  // Attach a ScoreTrace explaining every point
+}
+
+// ============================================================================
+// SCORE TRACE
+// ============================================================================
+
+// How one factor in the breakdown was scored
+export interface FactorTrace {
+  factor: keyof ScoreBreakdown;
+  inputs: Record<string, number | string | boolean | null>; // Raw values the factor was computed from
+  metric: string | null;   // Derived metric, e.g. "DTI 47.3%" or "2.1 months"
+  band: string;            // Threshold band the metric landed in
+  points: number;
+  maxPoints: number;
+}
+
+// Assumptions behind the payment math
+export interface TraceAssumptions {
+  rate: number;                // Par rate before credit pricing
+  noteRate: number;            // Priced for the buyer's credit and LTV at the target price
+  termYears: number;
+  propertyTaxRate: number;
+  monthlyInsurance: number;
+  pmiRate: number;             // Annual mortgage insurance the plan pays, as a fraction of the base loan (0 = none)
+  upfrontFee: number;          // FHA UFMIP, VA funding fee or USDA guarantee fee, financed into the loan
+  program: PaymentProgram;
+  downPaymentPercent: number;
+  monthlyPayment: number;      // At the target price
+  asOfDate: string;
+}
+
+export interface ScoreTrace {
+  factors: FactorTrace[];
+  assumptions: TraceAssumptions;
+}
+
+// ============================================================================
+// ASSISTANCE PROGRAM REGISTRY
+// ============================================================================
+
+// How assistance is paid back
+// - "second-mortgage": amortizing second loan
+// - "deferred-loan": no payments, repaid on sale or refinance
+// - "forgivable-loan": forgiven after a set number of years
+// - "grant": never repaid
+export type AssistanceStructure = "second-mortgage" | "deferred-loan" | "forgivable-loan" | "grant";
+
+// Income limit for households up to a size (null = any larger size)
+export interface IncomeLimit {
+  maxHouseholdSize: number | null;
+  amount: number;
+}
+
+// A down payment assistance program, defined as data
+export interface AssistanceProgram {
+  id: string;                      // Stable identifier ("ut-firsthome")
+  name: string;                    // Client-facing name ("Utah FirstHome")
+  sponsor: string;                 // Agency behind it, used in copy ("Utah Housing")
+  state: string | null;            // Two-letter state code (null = available anywhere)
+  loanProgram: LoanProgram;        // First mortgage it pairs with - that program's waiting periods apply
+  minCreditScore: number;
+  firstTimeBuyerRequired: boolean;
+  incomeLimits: IncomeLimit[];     // Smallest household first; unknown household size uses the first
+  amiPercent?: number | null;      // Limit as a share of local AMI (0.8 = 80%); replaces incomeLimits when the location is known
+  assistance: {
+    percentOfPrice: number;        // 0.06 = up to 6% of the price
+    maxAmount: number | null;      // Dollar cap, if any
+    structure: AssistanceStructure;
+  };
+  summary: string;                 // Short benefit shown in program matches
+}
+
+// Whether the buyer qualifies for one assistance program
+export interface AssistanceEligibility {
+  id: string;
+  name: string;
+  eligible: boolean;
+  reason: string;
+  benefit: string;
+  amount: number;                  // Assistance available at the target price
+  firstTimeBuyerRequired: boolean;
+}
+
+// ============================================================================
+// LOCAL MARKET DATA
+// ============================================================================
+
+// Loan limits, taxes and income for one county
+export interface LocationData {
+  id: string;                      // Stable identifier ("salt-lake-ut")
+  county: string;                  // Client-facing name ("Salt Lake County")
+  state: string;                   // Two-letter state code
+  zipCodes: string[];              // 5-digit ZIP codes that resolve to this county
+  conformingLimit: number;         // One-unit conforming loan limit - above this is jumbo
+  fhaLimit: number;                // One-unit FHA loan limit
+  propertyTaxRate: number;         // Effective annual rate as a fraction of price
+  areaMedianIncome: number;        // HUD median family income
+}
+
+// The buyer's county and how their loan compares to its limits
+export interface LocationSummary {
+  id: string;
+  county: string;
+  state: string;
+  propertyTaxRate: number;
+  areaMedianIncome: number;
+  fhaLimit: number;
+  conformingLimit: number;
+  loanAmount: number;              // The plan's loan at the target price, including any financed upfront fee
+  overFhaLimit: boolean;
+  jumbo: boolean;                  // Loan is over the conforming limit
+}
+
+// ============================================================================
+// ITEMIZED DEBTS
+// ============================================================================
+
+export type DebtType =
+  | "credit-card"
+  | "auto-loan"
+  | "student-loan"
+  | "personal-loan"
+  | "child-support"
+  | "alimony"
+  | "other";
+
+export interface DebtItem {
+  type: DebtType;
+  name?: string | null;              // Account label for display ("Chase Visa")
+  monthlyPayment?: number | null;    // Minimum or scheduled payment
+  balance?: number | null;
+  paymentsRemaining?: number | null; // Installment loans: payments left
+  interestRate?: number | null;      // APR as a fraction (0.24 = 24%) - used to plan payoffs
+  deferred?: boolean | null;         // Student loans: in deferment or forbearance
+  incomeDriven?: boolean | null;     // Student loans: on an income-driven repayment plan
+}
+
+// One debt as the program's underwriting counts it
+export interface QualifyingDebt {
+  type: DebtType;
+  name: string | null;
+  monthlyPayment: number;            // Reported payment
+  counted: number;                   // Monthly amount counted toward DTI
+  rule: string;                      // Why it counts this way
+}
+
+export interface QualifyingDebts {
+  program: PaymentProgram;           // Program whose rules were applied
+  total: number;                     // Qualifying monthly debt
+  items: QualifyingDebt[];
+}
+
+// ============================================================================
+// DEBT PAYOFF PLANNER
+// ============================================================================
+
+// Which account extra payments go to first
+// - "avalanche": highest interest rate
+// - "snowball": smallest balance
+// - "payment-freed": most qualifying monthly payment freed per dollar paid off
+export type PayoffStrategy = "avalanche" | "snowball" | "payment-freed";
+
+export interface PayoffMonth {
+  month: number;                     // 0 = today
+  date: string;                      // ISO date
+  totalBalance: number;
+  qualifyingDebts: number;           // Monthly debt counted toward DTI
+  dti: number | null;                // At the target price (null without qualifying income)
+  paidOff: string[];                 // Accounts paid off this month
+}
+
+export interface PayoffMilestone {
+  month: number;
+  date: string;
+  event: "PAID_OFF" | "DTI_43" | "DTI_36";
+  account: string | null;            // Account paid off (PAID_OFF only)
+  dti: number | null;
+  score: number;                     // Projected score once the milestone is reached
+  status: ScoreStatus;
+}
+
+export interface PayoffStrategyResult {
+  strategy: PayoffStrategy;
+  order: string[];                   // Accounts in the order extra payments target them
+  monthsTo43: number | null;         // null = not within the planning horizon
+  monthsTo36: number | null;
+  debtFreeMonth: number | null;      // Month the last balance is paid off
+  totalInterest: number;
+  months: PayoffMonth[];
+  milestones: PayoffMilestone[];
+}
+
+// Accounts to pay off today to reach a DTI target
+export interface LumpSumPayoff {
+  targetDti: number;
+  reachable: boolean;                // false = even paying off every account falls short
+  accounts: string[];
+  lumpSum: number;
+  dti: number | null;                // DTI once they're paid off
+}
+
+export interface DebtPayoffPlan {
+  monthlyBudget: number;             // Paid toward debt each month on top of minimums
+  currentDti: number | null;         // null without qualifying income
+  recommended: PayoffStrategy;       // Reaches 43% (then 36%) DTI soonest
+  strategies: PayoffStrategyResult[];
+  lumpSums: LumpSumPayoff[];         // For 43% and 36% DTI
+}
+
+// ============================================================================
+// QUALIFYING INCOME
+// ============================================================================
+
+export type IncomeType =
+  | "salary"
+  | "hourly"
+  | "self-employed"
+  | "commission"
+  | "bonus"
+  | "overtime"
+  | "social-security"
+  | "pension"
+  | "rental"
+  | "other";
+
+// One prior tax year (Schedule C net for self-employment, W-2 box for the rest)
+export interface IncomeYear {
+  year: number;
+  amount: number;
+}
+
+export interface IncomeSource {
+  type: IncomeType;
+  name?: string | null;              // Employer or source label for display
+  annualAmount?: number | null;      // Current annual amount (salary, hourly, benefits, other)
+  history?: IncomeYear[] | null;     // Prior years (self-employed, commission, bonus, overtime)
+  yearToDate?: number | null;        // Earned so far this year (variable income)
+  monthsYearToDate?: number | null;  // Months the year-to-date amount covers
+  nonTaxable?: boolean | null;       // Benefits that aren't taxed get grossed up
+  monthlyRent?: number | null;       // Rental: gross monthly rent from the lease
+  propertyPayment?: number | null;   // Rental: the property's monthly PITIA
+}
+
+// One source as the program's underwriting counts it
+export interface QualifyingIncomeItem {
+  type: IncomeType;
+  name: string | null;
+  monthly: number;                   // Monthly amount counted (negative = rental loss)
+  rule: string;                      // How it was calculated
+  declining: boolean;                // Most recent period is below the one before
+}
+
+export interface QualifyingIncome {
+  program: PaymentProgram;           // Program whose rules were applied
+  monthlyIncome: number;             // Qualifying monthly income (rental losses excluded)
+  rentalLoss: number;                // Net rental losses, counted as monthly debt
+  items: QualifyingIncomeItem[];
+}
+
+// ============================================================================
+// REPRESENTATIVE CREDIT SCORE
+// ============================================================================
+
+// How borrowers' bureau scores combine into the score the loan is priced on
+// - "lowest-middle": each borrower's middle score, then the lowest across borrowers
+// - "average-median": the average of each borrower's middle score (Fannie Mae DU,
+//   conventional loans only - FHA, VA and USDA always use "lowest-middle")
+export type CreditScorePolicy = "lowest-middle" | "average-median";
+
+export interface BorrowerCreditScore {
+  borrower: "borrower" | "co-borrower";
+  scores: number[];                  // Bureau scores on file
+  representative: number;            // Middle of three, lower of two
+}
+
+export interface RepresentativeCreditScore {
+  score: number;
+  policy: CreditScorePolicy;
+  borrowers: BorrowerCreditScore[];  // Borrowers with at least one score
+  explanation: string;
+}
+
+// ============================================================================
+// VA RESIDUAL INCOME
+// ============================================================================
+
+export type VaRegion = "northeast" | "midwest" | "south" | "west";
+
+export interface ResidualIncome {
+  region: VaRegion;
+  familySize: number;
+  loanAmount: number;            // Selects VA's under/over $80k table
+  monthlyIncome: number;         // Gross
+  estimatedTaxes: number;        // Federal, state and payroll taxes
+  housingPayment: number;
+  monthlyDebts: number;
+  maintenance: number;           // Maintenance and utilities estimate
+  residualIncome: number;        // Left over each month
+  required: number;              // VA's table minimum
+  dti: number;
+  requiredWithDti: number;       // 20% over the table above 41% DTI
+  shortfall: number;             // 0 when the requirement is met
+  meetsRequirement: boolean;
+}
+
+// ============================================================================
+// VA ENTITLEMENT
+// ============================================================================
+
+// What a VA buyer pays up front: any down payment partial entitlement
+// requires, and the funding fee unless they're exempt
+export interface VaLoanTerms {
+  entitlement: "full" | "partial";
+  remainingEntitlement: number | null;  // null with full entitlement
+  zeroDownLimit: number | null;         // Highest price with nothing down (null = no limit)
+  downPaymentRequired: number;          // At the target price
+  downPaymentPercent: number;
+  subsequentUse: boolean;
+  fundingFeeRate: number;               // 0 when exempt
+  fundingFeeExempt: boolean;
+  exemptReason: string | null;
+}
+
+// ============================================================================
+// CASH TO CLOSE
+// ============================================================================
+
+// How closing costs, prepaids and the escrow deposit are estimated
+export interface ClosingCostModel {
+  lenderFeeRate: number;          // Origination and underwriting, as a fraction of the loan
+  titleInsuranceRate: number;     // Lender's and owner's title policies, as a fraction of price
+  thirdPartyFees: number;         // Appraisal, credit report, recording and settlement
+  prepaidInterestDays: number;    // Interest from closing to the end of the month
+  prepaidInsuranceMonths: number; // Homeowner's insurance paid up front
+  taxEscrowMonths: number;        // Property tax cushion for the escrow account
+  insuranceEscrowMonths: number;  // Insurance cushion for the escrow account
+}
+
+export interface ClosingCosts {
+  lenderFees: number;
+  titleInsurance: number;
+  thirdPartyFees: number;
+  prepaidInterest: number;
+  prepaidInsurance: number;
+  escrowDeposit: number;          // Initial tax and insurance escrow
+  total: number;
+}
+
+// What a buyer brings to closing and what they have left afterwards
+export interface CashToClose {
+  price: number;
+  downPayment: number;
+  closingCosts: ClosingCosts;
+  sellerConcessions: number;      // Applied, within the program's cap and the closing costs
+  sellerConcessionCap: number;    // Most the program lets the seller pay
+  giftFunds: number;
+  downPaymentAssistance: number;  // Applied (never more than is due)
+  cashToClose: number;            // Due from the buyer's own savings
+  savings: number;
+  shortfall: number;              // 0 when savings cover it
+  availableForDownPayment: number; // All funds less net closing costs
+  postClosingAssets: number;      // Liquid funds left after closing (reserves)
+}
@@ -0,0 +1,318 @@
+import type {
+  ScoreInput,
+  ScoreValuesInput,
+  ValidationIssue,
+  ValidationResult,
+} from './types';
+import {
+  CREDIT_SCORE_RANGES,
+  INCOME_RANGES,
+  PRICE_RANGES,
+  DOWN_PAYMENT_RANGES,
+  MONTHLY_DEBT_RANGES,
+  EMPLOYMENT_YEARS_RANGES,
+  VETERAN_STATUSES,
+  isKnownRange,
+} from './ranges';
+import { DEROGATORY_EVENT_TYPES, parseIsoDate, parseStrictIsoDate } from './derogatory';
+import { DEBT_TYPES } from './debts';
+import { INCOME_TYPES } from './income';
+import { MAX_BUREAU_SCORES } from './credit';
+import { knownHouseholdSize } from './programs';
+import { VA_REGIONS } from './residual';
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+// Thrown by strict-mode scoring when input has errors
+export class ScoreInputError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid score input: ${issues.map((i) => i.message).join('; ')}`);
+    this.name = 'ScoreInputError';
+    this.issues = issues;
+  }
+}
+
+type Issues = Omit<ValidationResult, 'valid'>;
+
+// A range string must be a known key; missing or unknown ranges get a default
+function checkRange(
+  issues: Issues,
+  field: string,
+  range: string | null | undefined,
+  mapping: Record<string, unknown>
+): void {
+  if (!range) {
+    issues.defaultedFields.push(field);
+    return;
+  }
+  if (!isKnownRange(mapping, range)) {
+    issues.errors.push({
+      field,
+      code: 'UNKNOWN_RANGE',
+      message: `${field}: unknown range "${range}"`,
+      value: range,
+    });
+    issues.defaultedFields.push(field);
+  }
+}
+
+// Numbers must be finite and (unless allowed) non-negative. Top-level
+// amounts that aren't finite are scored on a default.
+function checkNumber(
+  issues: Issues,
+  field: string,
+  value: number | null | undefined,
+  allowNegative: boolean = false
+): void {
+  if (value === null || value === undefined) return;
+
+  if (!Number.isFinite(value)) {
+    issues.errors.push({ field, code: 'INVALID_NUMBER', message: `${field}: ${value} is not a number`, value });
+    if (!field.includes('.')) issues.defaultedFields.push(field);
+  } else if (value < 0 && !allowNegative) {
+    issues.errors.push({ field, code: 'NEGATIVE_VALUE', message: `${field}: ${value} can't be negative`, value });
+  }
+}
+
+// A home price must be a finite amount above zero; anything else is scored
+// on the default price
+function checkPrice(issues: Issues, field: string, value: number): void {
+  if (Number.isFinite(value) && value > 0) return;
+  issues.errors.push({ field, code: 'INVALID_PRICE', message: `${field}: ${value} is not a home price above $0`, value });
+  issues.defaultedFields.push(field);
+}
+
+// Checks shared by both input shapes
+function checkCommonFields(issues: Issues, input: ScoreInput | ScoreValuesInput): void {
+  if (input.veteranStatus && !VETERAN_STATUSES.includes(input.veteranStatus)) {
+    issues.errors.push({
+      field: 'veteranStatus',
+      code: 'UNKNOWN_VETERAN_STATUS',
+      message: `veteranStatus: unknown value "${input.veteranStatus}"`,
+      value: input.veteranStatus,
+    });
+  }
+
+  if (input.vaRegion && !VA_REGIONS.includes(input.vaRegion)) {
+    issues.errors.push({
+      field: 'vaRegion',
+      code: 'UNKNOWN_VA_REGION',
+      message: `vaRegion: unknown region "${input.vaRegion}"`,
+      value: input.vaRegion,
+    });
+  }
+
+  checkNumber(issues, 'employmentGapMonths', input.employmentGapMonths);
+  checkNumber(issues, 'householdSize', input.householdSize);
+  checkNumber(issues, 'vaDisabilityRating', input.vaDisabilityRating);
+  checkNumber(issues, 'vaRemainingEntitlement', input.vaRemainingEntitlement);
+  checkNumber(issues, 'giftFunds', input.giftFunds);
+  checkNumber(issues, 'sellerConcessions', input.sellerConcessions);
+  checkNumber(issues, 'downPaymentAssistance', input.downPaymentAssistance);
+  checkNumber(issues, 'monthlySavings', input.monthlySavings);
+  checkNumber(issues, 'monthlyDebtPaydown', input.monthlyDebtPaydown);
+  checkNumber(issues, 'expectedAnnualRaise', input.expectedAnnualRaise, true);
+
+  if (input.monthlySavings === null || input.monthlySavings === undefined) {
+    issues.defaultedFields.push('monthlySavings');
+  }
+  if (input.expectedAnnualRaise !== null && input.expectedAnnualRaise !== undefined && input.expectedAnnualRaise >= 1) {
+    issues.warnings.push({
+      field: 'expectedAnnualRaise',
+      code: 'OUT_OF_RANGE',
+      message: `expectedAnnualRaise: ${input.expectedAnnualRaise} looks like a percentage - use a fraction (0.03 = 3%)`,
+      value: input.expectedAnnualRaise,
+    });
+  }
+
+  // Income limits are set by whole household sizes
+  if (
+    input.householdSize !== null && input.householdSize !== undefined &&
+    input.householdSize >= 0 && knownHouseholdSize(input.householdSize) === null
+  ) {
+    issues.errors.push({
+      field: 'householdSize',
+      code: 'OUT_OF_RANGE',
+      message: `householdSize: ${input.householdSize} isn't a whole number of people`,
+      value: input.householdSize,
+    });
+  }
+
+  if (input.vaDisabilityRating !== null && input.vaDisabilityRating !== undefined && input.vaDisabilityRating > 100) {
+    issues.warnings.push({
+      field: 'vaDisabilityRating',
+      code: 'OUT_OF_RANGE',
+      message: `vaDisabilityRating: ${input.vaDisabilityRating} is over 100 - ratings run 0-100`,
+      value: input.vaDisabilityRating,
+    });
+  }
+
+  // Itemized debts need a known type and sane amounts
+  (input.debts ?? []).forEach((debt, index) => {
+    const field = `debts[${index}]`;
+    if (!DEBT_TYPES.includes(debt.type)) {
+      issues.errors.push({
+        field: `${field}.type`,
+        code: 'UNKNOWN_DEBT_TYPE',
+        message: `${field}.type: unknown debt type "${debt.type}"`,
+        value: debt.type,
+      });
+    }
+    checkNumber(issues, `${field}.monthlyPayment`, debt.monthlyPayment);
+    checkNumber(issues, `${field}.balance`, debt.balance);
+    checkNumber(issues, `${field}.paymentsRemaining`, debt.paymentsRemaining);
+  });
+
+  // Income sources need a known type; history amounts can be losses
+  (input.incomeSources ?? []).forEach((source, index) => {
+    const field = `incomeSources[${index}]`;
+    if (!INCOME_TYPES.includes(source.type)) {
+      issues.errors.push({
+        field: `${field}.type`,
+        code: 'UNKNOWN_INCOME_TYPE',
+        message: `${field}.type: unknown income type "${source.type}"`,
+        value: source.type,
+      });
+    }
+    checkNumber(issues, `${field}.annualAmount`, source.annualAmount);
+    checkNumber(issues, `${field}.yearToDate`, source.yearToDate, true);
+    checkNumber(issues, `${field}.monthsYearToDate`, source.monthsYearToDate);
+    checkNumber(issues, `${field}.monthlyRent`, source.monthlyRent);
+    checkNumber(issues, `${field}.propertyPayment`, source.propertyPayment);
+    (source.history ?? []).forEach((year, i) => checkNumber(issues, `${field}.history[${i}].amount`, year.amount, true));
+  });
+
+  // An unreadable as-of date would break every date calculation
+  if (input.asOfDate && parseStrictIsoDate(input.asOfDate) === null) {
+    issues.errors.push({
+      field: 'asOfDate',
+      code: 'INVALID_DATE',
+      message: `asOfDate: "${input.asOfDate}" is not an ISO date (YYYY-MM-DD) - today is used instead`,
+      value: input.asOfDate,
+    });
+    issues.defaultedFields.push('asOfDate');
+  }
+
+  // Events with unknown types or unreadable dates are skipped when scoring
+  (input.derogatoryEvents ?? []).forEach((event, index) => {
+    if (!DEROGATORY_EVENT_TYPES.includes(event.type)) {
+      issues.errors.push({
+        field: `derogatoryEvents[${index}].type`,
+        code: 'UNKNOWN_EVENT_TYPE',
+        message: `derogatoryEvents[${index}].type: unknown event type "${event.type}"`,
+        value: event.type,
+      });
+    }
+    if (isNaN(parseIsoDate(event.date).getTime())) {
+      issues.warnings.push({
+        field: `derogatoryEvents[${index}].date`,
+        code: 'INVALID_DATE',
+        message: `derogatoryEvents[${index}].date: "${event.date}" is not a valid date - event ignored`,
+        value: event.date,
+      });
+    }
+  });
+}
+
+function toResult(issues: Issues): ValidationResult {
+  return { valid: issues.errors.length === 0, ...issues };
+}
+
+/**
+ * Validate intake-form input. Unknown range strings, unknown veteran statuses
+ * and bad numbers are errors; fields that will be scored on an assumed value
+ * are listed in defaultedFields.
+ */
+export function validateScoreInput(input: ScoreInput): ValidationResult {
+  const issues: Issues = { errors: [], warnings: [], defaultedFields: [] };
+
+  checkRange(issues, 'creditScoreRange', input.creditScoreRange, CREDIT_SCORE_RANGES);
+  if (input.creditScoreRange === 'not-sure') issues.defaultedFields.push('creditScoreRange');
+  // Income sources stand in for the income range
+  if (!input.incomeSources || input.incomeSources.length === 0) {
+    checkRange(issues, 'annualIncome', input.annualIncome, INCOME_RANGES);
+  }
+  checkRange(issues, 'downPayment', input.downPayment, DOWN_PAYMENT_RANGES);
+  checkRange(issues, 'priceRange', input.priceRange, PRICE_RANGES);
+  // Itemized debts stand in for the monthly debt range
+  if (!input.debts || input.debts.length === 0) {
+    checkRange(issues, 'monthlyDebts', input.monthlyDebts, MONTHLY_DEBT_RANGES);
+  }
+  checkRange(issues, 'employmentYears', input.employmentYears, EMPLOYMENT_YEARS_RANGES);
+  if (input.firstTimeBuyer === null) issues.defaultedFields.push('firstTimeBuyer');
+
+  checkCommonFields(issues, input);
+  return toResult(issues);
+}
+
+/**
+ * Validate exact-value input. NaN, infinite and negative amounts and unknown
+ * veteran statuses are errors; out-of-range credit scores are warnings.
+ */
+export function validateScoreValues(input: ScoreValuesInput): ValidationResult {
+  const issues: Issues = { errors: [], warnings: [], defaultedFields: [] };
+
+  checkNumber(issues, 'creditScore', input.creditScore);
+  checkNumber(issues, 'annualIncome', input.annualIncome);
+  checkNumber(issues, 'monthlyDebts', input.monthlyDebts);
+  checkPrice(issues, 'targetHomePrice', input.targetHomePrice);
+  checkNumber(issues, 'savedForDownPayment', input.savedForDownPayment);
+  checkNumber(issues, 'employmentYears', input.employmentYears);
+  checkNumber(issues, 'coBorrowerCreditScore', input.coBorrowerCreditScore);
+  checkNumber(issues, 'coBorrowerAnnualIncome', input.coBorrowerAnnualIncome);
+  checkNumber(issues, 'coBorrowerMonthlyDebts', input.coBorrowerMonthlyDebts);
+
+  // Bureau scores: at most one per bureau, each checked like a single score
+  for (const field of ['creditScores', 'coBorrowerCreditScores'] as const) {
+    const scores = input[field] ?? [];
+    if (scores.length > MAX_BUREAU_SCORES) {
+      issues.errors.push({
+        field,
+        code: 'TOO_MANY_SCORES',
+        message: `${field}: ${scores.length} scores given - a tri-merge report has at most ${MAX_BUREAU_SCORES}`,
+        value: scores.length,
+      });
+    }
+    scores.forEach((score, index) => checkNumber(issues, `${field}[${index}]`, score));
+  }
+
+  const scoreFields: [string, number | null | undefined][] = [
+    ['creditScore', input.creditScore],
+    ['coBorrowerCreditScore', input.coBorrowerCreditScore],
+    ...(input.creditScores ?? []).map((score, i): [string, number] => [`creditScores[${i}]`, score]),
+    ...(input.coBorrowerCreditScores ?? []).map((score, i): [string, number] => [`coBorrowerCreditScores[${i}]`, score]),
+  ];
+  for (const [field, score] of scoreFields) {
+    if (typeof score === 'number' && Number.isFinite(score) && (score < 300 || score > 850)) {
+      issues.warnings.push({
+        field,
+        code: 'OUT_OF_RANGE',
+        message: `${field}: ${score} is outside the 300-850 credit score range`,
+        value: score,
+      });
+    }
+  }
+
+  const hasScore = (score: number | null | undefined, scores: number[] | null | undefined) =>
+    (score !== null && score !== undefined) || (scores ?? []).length > 0;
+  if (!hasScore(input.creditScore, input.creditScores) && !hasScore(input.coBorrowerCreditScore, input.coBorrowerCreditScores)) {
+    issues.defaultedFields.push('creditScore');
+  }
+  if (input.employmentYears === null || input.employmentYears === undefined) {
+    issues.defaultedFields.push('employmentYears');
+  }
+
+  checkCommonFields(issues, input);
+  return toResult(issues);
+}
+
+// Validate a price that replaces the input's own (the slider's)
+export function validatePrice(price: number, field: string): ValidationResult {
+  const issues: Issues = { errors: [], warnings: [], defaultedFields: [] };
+  checkPrice(issues, field, price);
+  return toResult(issues);
+}